@@ -112,6 +112,12 @@ export class AttestorContract extends ContractBase {
     /** compute_note_hash_and_nullifier(contract_address: struct, nonce: field, storage_slot: field, note_type_id: field, serialized_note: array) */
     compute_note_hash_and_nullifier: ((contract_address: AztecAddressLike, nonce: FieldLike, storage_slot: FieldLike, note_type_id: FieldLike, serialized_note: FieldLike[]) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** add_many_to_blacklist(token: struct, shield_ids: array, proofs: array, len: integer) */
+    add_many_to_blacklist: ((token: AztecAddressLike, shield_ids: FieldLike[], proofs: FieldLike[], len: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** remove_many_from_blacklist(token: struct, shield_ids: array, proofs: array, len: integer) */
+    remove_many_from_blacklist: ((token: AztecAddressLike, shield_ids: FieldLike[], proofs: FieldLike[], len: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** remove_from_blacklist(token: struct, shield_id: field, proof: array) */
     remove_from_blacklist: ((token: AztecAddressLike, shield_id: FieldLike, proof: FieldLike[]) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
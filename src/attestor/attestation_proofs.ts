@@ -0,0 +1,81 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+import {
+  BOUNDED_VEC_LEN,
+  BlacklistTreeConfig,
+  DEFAULT_TREE_CONFIG,
+  PartitionTable,
+  smt,
+} from '../common_types/index.js';
+import { SiblingPathProvider } from './sibling_path_provider.js';
+
+/** Shield ids of a partition table that are blacklisted under the root its proofs were built against. */
+export class BlacklistedShieldIdError extends Error {
+  constructor(public readonly shieldIds: bigint[], public readonly root: bigint) {
+    super(`Shield ids ${shieldIds.join(', ')} are blacklisted under root ${new Fr(root)}`);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Lays out the sibling paths of a partition table's shield ids the way `request_attestation` expects them: one
+ * `config.depth` long non-membership proof per slot of the table, unused slots included, flattened in slot order.
+ * Every proof is checked against `root` so that a bad bundle fails here rather than inside a transaction, with a
+ * `BlacklistedShieldIdError` if the proofs show that shield ids of the table are blacklisted.
+ */
+export function assembleAttestationProofs(
+  partitionTable: PartitionTable,
+  root: bigint,
+  siblingPaths: Fr[][],
+  config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG,
+): Fr[] {
+  const shieldIds = partitionTable.shieldIds;
+  if (shieldIds.elems.length !== BOUNDED_VEC_LEN || shieldIds.len > BOUNDED_VEC_LEN) {
+    throw new Error(
+      `Partition table has ${shieldIds.len}/${shieldIds.elems.length} shield ids, ` +
+        `request_attestation expects at most ${BOUNDED_VEC_LEN} in ${BOUNDED_VEC_LEN} slots`,
+    );
+  }
+  if (siblingPaths.length !== BOUNDED_VEC_LEN) {
+    throw new Error(`Expected ${BOUNDED_VEC_LEN} sibling paths, one per slot, got ${siblingPaths.length}`);
+  }
+
+  const blacklisted: bigint[] = [];
+  siblingPaths.forEach((siblingPath, slot) => {
+    const shieldId = shieldIds.elems[slot];
+    if (siblingPath.length !== config.depth) {
+      throw new Error(
+        `Sibling path of shield id ${shieldId} (slot ${slot}) has ${siblingPath.length} nodes, expected ${config.depth}`,
+      );
+    }
+    if (smt.verify(shieldId, root, siblingPath, config)) {
+      return;
+    }
+    if (smt.computeMerkleRoot(shieldId, true, siblingPath, config) === root) {
+      if (!blacklisted.includes(shieldId)) {
+        blacklisted.push(shieldId);
+      }
+    } else {
+      throw new Error(
+        `Sibling path of shield id ${shieldId} (slot ${slot}) does not prove non-membership under root ${new Fr(root)}`,
+      );
+    }
+  });
+  if (blacklisted.length > 0) {
+    throw new BlacklistedShieldIdError(blacklisted, root);
+  }
+
+  return siblingPaths.flat();
+}
+
+/** Fetches the sibling paths of a partition table's shield ids and assembles them with `assembleAttestationProofs`. */
+export async function buildAttestationProofs(
+  provider: SiblingPathProvider,
+  token: AztecAddress,
+  partitionTable: PartitionTable,
+  root: bigint,
+  config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG,
+) {
+  const siblingPaths = await provider.getSiblingPaths(token, partitionTable.shieldIds.elems);
+  return assembleAttestationProofs(partitionTable, root, siblingPaths, config);
+}
@@ -0,0 +1,74 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+import { BlacklistTreeConfig, DEFAULT_TREE_CONFIG } from '../common_types/index.js';
+
+export const BLACKLIST_BATCH_SIZE = 16;
+
+/** Something that can produce the chained sibling paths of a batch, e.g. an `AttestorSimulator` or `BlacklistIndexer`. */
+export interface ChainedSiblingPathProvider {
+  getChainedSiblingPaths(token: AztecAddress, shieldIds: bigint[], present: boolean): Promise<Fr[][]>;
+}
+
+/** The arguments of `add_many_to_blacklist` and `remove_many_from_blacklist`. */
+export type BlacklistBatch = {
+  /** The shield ids, padded with zeros to `BLACKLIST_BATCH_SIZE`. */
+  shieldIds: bigint[];
+  /** One sibling path per shield id, padded with zeros to `depth * BLACKLIST_BATCH_SIZE` fields. */
+  proofs: Fr[];
+  /** The number of shield ids in use. */
+  len: number;
+};
+
+/**
+ * Builds a batch of blacklist insertions (`present`) or removals whose proofs are chained, so that the contract can
+ * apply them one after the other within a single transaction.
+ */
+export async function buildBlacklistBatch(
+  provider: ChainedSiblingPathProvider,
+  token: AztecAddress,
+  shieldIds: bigint[],
+  present: boolean,
+  config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG,
+): Promise<BlacklistBatch> {
+  if (shieldIds.length > BLACKLIST_BATCH_SIZE) {
+    throw new Error(
+      `Cannot batch ${shieldIds.length} shield ids, at most ${BLACKLIST_BATCH_SIZE} fit in a transaction`,
+    );
+  }
+  if (new Set(shieldIds).size !== shieldIds.length) {
+    throw new Error(`Batch contains duplicate shield ids: ${shieldIds}`);
+  }
+
+  const siblingPaths = await provider.getChainedSiblingPaths(token, shieldIds, present);
+  const padding = BLACKLIST_BATCH_SIZE - shieldIds.length;
+  return {
+    shieldIds: [...shieldIds, ...Array(padding).fill(0n)],
+    proofs: [...siblingPaths.flat(), ...Array(padding * config.depth).fill(Fr.ZERO)],
+    len: shieldIds.length,
+  };
+}
+
+/** Blacklists all of `shieldIds` in a single transaction. */
+export async function addManyToBlacklist(
+  attestor: AttestorContract,
+  provider: ChainedSiblingPathProvider,
+  token: AztecAddress,
+  shieldIds: bigint[],
+  config?: BlacklistTreeConfig,
+) {
+  const { shieldIds: ids, proofs, len } = await buildBlacklistBatch(provider, token, shieldIds, true, config);
+  return await attestor.methods.add_many_to_blacklist(token, ids, proofs, len).send().wait();
+}
+
+/** Removes all of `shieldIds` from the blacklist in a single transaction. */
+export async function removeManyFromBlacklist(
+  attestor: AttestorContract,
+  provider: ChainedSiblingPathProvider,
+  token: AztecAddress,
+  shieldIds: bigint[],
+  config?: BlacklistTreeConfig,
+) {
+  const { shieldIds: ids, proofs, len } = await buildBlacklistBatch(provider, token, shieldIds, false, config);
+  return await attestor.methods.remove_many_from_blacklist(token, ids, proofs, len).send().wait();
+}
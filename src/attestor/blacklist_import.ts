@@ -0,0 +1,272 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { AztecAddress, DebugLogger, Fr, createDebugLogger } from '@aztec/aztec.js';
+
+import { createHash } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { extname } from 'path';
+
+import { DEFAULT_TREE_CONFIG, smt } from '../common_types/index.js';
+import { BlacklistIndexer } from './blacklist_indexer.js';
+
+/** The updates needed to bring a token's on-chain blacklist in line with an authoritative list. */
+export type BlacklistPlan = {
+  token: string;
+  /** The on-chain root the plan was computed against. */
+  baseRoot: string;
+  adds: string[];
+  removes: string[];
+};
+
+/** Progress of a plan being applied, persisted next to it so that an interrupted run can resume. */
+type BlacklistJournal = {
+  /** The root the plan was computed against, which together with `planHash` ties the journal to its plan. */
+  baseRoot: string;
+  /** Hash of the token, adds and removes of the plan. */
+  planHash: string;
+  /** Number of updates of the plan that have been mined. */
+  applied: number;
+  /** The on-chain root after the last applied update. */
+  root: string;
+};
+
+/**
+ * Parses a CSV whose first column holds shield ids, each of which must be a leaf index of a tree of `depth`. A header
+ * row and blank lines are skipped.
+ */
+export function parseBlacklistCsv(content: string, depth = DEFAULT_TREE_CONFIG.depth) {
+  const shieldIds: bigint[] = [];
+  content.split(/\r?\n/).forEach((line, i) => {
+    const cell = line
+      .split(',')[0]
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    if (cell === '') {
+      return;
+    }
+    const shieldId = parseShieldId(cell, depth);
+    if (shieldId === undefined) {
+      if (i === 0 && !isInteger(cell)) {
+        return;
+      }
+      throw new Error(`Invalid shield id "${cell}" on line ${i + 1}, ${expectedShieldId(depth)}`);
+    }
+    shieldIds.push(shieldId);
+  });
+  return dedupe(shieldIds);
+}
+
+/**
+ * Parses a JSON array of shield ids, or an object holding one under `shieldIds` or `shield_ids`. Every shield id must
+ * be a leaf index of a tree of `depth`.
+ */
+export function parseBlacklistJson(content: string, depth = DEFAULT_TREE_CONFIG.depth) {
+  const json = JSON.parse(content);
+  const list = Array.isArray(json) ? json : json.shieldIds ?? json.shield_ids;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected a JSON array of shield ids');
+  }
+  return dedupe(
+    list.map((value, i) => {
+      const shieldId = parseShieldId(String(value), depth);
+      if (shieldId === undefined) {
+        throw new Error(`Invalid shield id "${value}" at index ${i}, ${expectedShieldId(depth)}`);
+      }
+      return shieldId;
+    }),
+  );
+}
+
+/** Loads a list of shield ids from a `.csv` or `.json` file, see `parseBlacklistCsv` and `parseBlacklistJson`. */
+export async function loadBlacklistFile(path: string, depth = DEFAULT_TREE_CONFIG.depth) {
+  const content = await readFile(path, 'utf-8');
+  switch (extname(path).toLowerCase()) {
+    case '.csv':
+      return parseBlacklistCsv(content, depth);
+    case '.json':
+      return parseBlacklistJson(content, depth);
+    default:
+      throw new Error(`Unsupported blacklist file ${path}, expected .csv or .json`);
+  }
+}
+
+/** Returns the shield ids to add to and remove from `current` to obtain `desired`. */
+export function diffBlacklist(current: bigint[], desired: bigint[]) {
+  const currentSet = new Set(current);
+  const desiredSet = new Set(desired);
+  return {
+    adds: desired.filter(shieldId => !currentSet.has(shieldId)),
+    removes: current.filter(shieldId => !desiredSet.has(shieldId)),
+  };
+}
+
+export function formatBlacklistPlan(plan: BlacklistPlan) {
+  return [
+    `Blacklist plan for token ${plan.token} against root ${plan.baseRoot}`,
+    ...plan.adds.map(shieldId => `  + ${shieldId}`),
+    ...plan.removes.map(shieldId => `  - ${shieldId}`),
+    `${plan.adds.length} to add, ${plan.removes.length} to remove`,
+  ].join('\n');
+}
+
+/**
+ * Brings the on-chain blacklist of a token in line with an authoritative list, one `add_to_blacklist` or
+ * `remove_from_blacklist` at a time, using an indexer to rebuild the current tree from chain.
+ */
+export class BlacklistImporter {
+  constructor(
+    protected attestor: AttestorContract,
+    protected indexer: BlacklistIndexer,
+    protected logger: DebugLogger = createDebugLogger('box:blacklist_import'),
+  ) {}
+
+  public async plan(token: AztecAddress, desired: bigint[]): Promise<BlacklistPlan> {
+    const { depth } = this.indexer.getConfig();
+    const invalid = desired.find(shieldId => parseShieldId(shieldId.toString(), depth) === undefined);
+    if (invalid !== undefined) {
+      throw new Error(`Invalid shield id ${invalid}, ${expectedShieldId(depth)}`);
+    }
+
+    await this.indexer.sync();
+    await this.indexer.verify();
+
+    const { adds, removes } = diffBlacklist(this.indexer.getBlacklist(token), desired);
+    return {
+      token: token.toString(),
+      baseRoot: new Fr(await this.getOnChainRoot(token)).toString(),
+      adds: adds.map(String),
+      removes: removes.map(String),
+    };
+  }
+
+  /**
+   * Applies `plan`, recording progress in `journalPath` after every mined update. Refuses to run if the on-chain root
+   * is neither the one the plan (or the journal) expects nor the one right after the next update, or if the journal
+   * was left by another plan.
+   */
+  public async apply(plan: BlacklistPlan, journalPath: string) {
+    const token = AztecAddress.fromString(plan.token);
+    // Checked up front, since an invalid shield id would only fail once the updates before it have landed
+    const { depth } = this.indexer.getConfig();
+    const toShieldId = (value: string) => {
+      const shieldId = parseShieldId(value, depth);
+      if (shieldId === undefined) {
+        throw new Error(`Invalid shield id "${value}" in plan, ${expectedShieldId(depth)}`);
+      }
+      return shieldId;
+    };
+    const updates = [
+      ...plan.adds.map(shieldId => ({ shieldId: toShieldId(shieldId), present: true })),
+      ...plan.removes.map(shieldId => ({ shieldId: toShieldId(shieldId), present: false })),
+    ];
+    const planHash = hashPlan(plan);
+    let journal = (await readJournal(journalPath)) ?? {
+      baseRoot: plan.baseRoot,
+      planHash,
+      applied: 0,
+      root: plan.baseRoot,
+    };
+    if (journal.baseRoot !== plan.baseRoot || journal.planHash !== planHash) {
+      throw new Error(`Journal ${journalPath} belongs to another plan, remove it to apply this one from the start`);
+    }
+
+    await this.indexer.sync();
+    const onChainRoot = await this.getOnChainRoot(token);
+    if (onChainRoot !== BigInt(journal.root)) {
+      // The previous run may have been interrupted after its last update was mined but before it was recorded
+      const next = updates[journal.applied];
+      if (!next || !(await this.hasLanded(token, next, BigInt(journal.root), onChainRoot))) {
+        throw new Error(
+          `On-chain blacklist root ${new Fr(onChainRoot)} of ${token} differs from the expected root ${journal.root}`,
+        );
+      }
+      journal = { ...journal, applied: journal.applied + 1, root: new Fr(onChainRoot).toString() };
+      await writeJournal(journalPath, journal);
+    }
+
+    for (let i = journal.applied; i < updates.length; i++) {
+      const { shieldId, present } = updates[i];
+      const proof = await this.indexer.getSiblingPath(token, shieldId);
+      const method = present ? this.attestor.methods.add_to_blacklist : this.attestor.methods.remove_from_blacklist;
+      await method(token, shieldId, proof).send().wait();
+      await this.indexer.sync();
+
+      journal = { ...journal, applied: i + 1, root: new Fr(await this.getOnChainRoot(token)).toString() };
+      await writeJournal(journalPath, journal);
+      this.logger(`${present ? 'Added' : 'Removed'} shield id ${shieldId} (${i + 1}/${updates.length})`);
+    }
+
+    await this.indexer.verify();
+  }
+
+  /** Whether `update` is exactly what turned `fromRoot` into `toRoot`. */
+  private async hasLanded(
+    token: AztecAddress,
+    update: { shieldId: bigint; present: boolean },
+    fromRoot: bigint,
+    toRoot: bigint,
+  ) {
+    // The siblings of a leaf do not depend on the leaf itself, so the current path proves both roots
+    const siblingPath = await this.indexer.getSiblingPath(token, update.shieldId);
+    const config = this.indexer.getConfig();
+    return (
+      smt.computeMerkleRoot(update.shieldId, !update.present, siblingPath, config) === fromRoot &&
+      smt.computeMerkleRoot(update.shieldId, update.present, siblingPath, config) === toRoot
+    );
+  }
+
+  private async getOnChainRoot(token: AztecAddress): Promise<bigint> {
+    return await this.attestor.methods.get_blacklist_root(token).view();
+  }
+}
+
+/** Parses a leaf index of a tree of `depth`, in decimal or hex. */
+function parseShieldId(value: string, depth: number) {
+  if (!isInteger(value)) {
+    return undefined;
+  }
+  const shieldId = BigInt(value.trim());
+  return shieldId >= 0n && shieldId < 2n ** BigInt(depth) ? shieldId : undefined;
+}
+
+// `BigInt` also takes blank strings, as zero
+function isInteger(value: string) {
+  try {
+    BigInt(value);
+    return value.trim() !== '';
+  } catch {
+    return false;
+  }
+}
+
+function expectedShieldId(depth: number) {
+  return `expected an integer from 0 to 2^${depth} - 1`;
+}
+
+function hashPlan({ token, adds, removes }: BlacklistPlan) {
+  return createHash('sha256').update(JSON.stringify({ token, adds, removes })).digest('hex');
+}
+
+function dedupe(shieldIds: bigint[]) {
+  return Array.from(new Set(shieldIds));
+}
+
+async function readJournal(path: string): Promise<BlacklistJournal | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8'));
+  } catch (err) {
+    if (isErrnoException(err) && err.code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+function isErrnoException(err: unknown): err is NodeJS.ErrnoException {
+  return err instanceof Error && 'code' in err;
+}
+
+async function writeJournal(path: string, journal: BlacklistJournal) {
+  // Written to a temporary file first so that an interruption never leaves a truncated journal behind
+  await writeFile(`${path}.tmp`, JSON.stringify(journal));
+  await rename(`${path}.tmp`, path);
+}
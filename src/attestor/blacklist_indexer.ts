@@ -0,0 +1,107 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { AztecAddress, DebugLogger, ExtendedUnencryptedL2Log, PXE, createDebugLogger } from '@aztec/aztec.js';
+
+import { BlacklistLogPair, EventStream, decodeBlacklistLogPairs, groupLogsByTx } from '../events/index.js';
+import { BlacklistTreeStore } from './blacklist_tree_store.js';
+
+/** A blacklist update decoded from the `(token, shield_id)` log pair emitted by the Attestor. */
+export type BlacklistLogEntry = BlacklistLogPair;
+
+/**
+ * Rebuilds the Attestor's per-token blacklist trees from the unencrypted logs it emits.
+ *
+ * `add_to_blacklist` and `remove_from_blacklist` emit the same `(token, shield_id)` pair, but the contract only lets
+ * an insert through when the leaf is absent and a removal when it is present, so every pair toggles its leaf.
+ */
+export class BlacklistIndexer {
+  constructor(
+    protected pxe: PXE,
+    protected attestor: AttestorContract,
+    protected store: BlacklistTreeStore = BlacklistTreeStore.open(),
+    protected logger: DebugLogger = createDebugLogger('box:blacklist_indexer'),
+  ) {}
+
+  /**
+   * Applies every blacklist update logged since the last sync, up to and including `toBlock`. A sync that was
+   * interrupted resumes right after the last update it applied, since applying one twice would toggle it back.
+   */
+  public async sync(toBlock?: number) {
+    const latest = toBlock ?? (await this.pxe.getBlockNumber());
+    const syncedToBlock = this.store.getSyncedToBlock();
+    if (latest <= syncedToBlock) {
+      return;
+    }
+
+    const syncedToLog = this.store.getSyncedToLog();
+    const resumeAfter = syncedToLog && syncedToLog.blockNumber > syncedToBlock ? syncedToLog : undefined;
+    const events = new EventStream(
+      this.pxe,
+      {
+        attestor: this.attestor.address,
+        ...(resumeAfter ? { afterLog: resumeAfter } : { fromBlock: syncedToBlock + 1 }),
+        toBlock: latest,
+        isBlacklisted: async (token, shieldId) => !(await this.store.isNotBlacklisted(token, shieldId)),
+      },
+      this.logger,
+    );
+    let applied = 0;
+    for await (const event of events) {
+      if (event.type === 'BlacklistAdded') {
+        await this.store.addToBlacklist(event.token, event.shieldId, event.cursor);
+      } else if (event.type === 'BlacklistRemoved') {
+        await this.store.removeFromBlacklist(event.token, event.shieldId, event.cursor);
+      }
+      applied++;
+    }
+    await this.store.setSyncedToBlock(latest);
+    this.logger(`Synced ${applied} blacklist updates up to block ${latest}`);
+  }
+
+  /** Checks that every rebuilt root matches the root stored by the Attestor. */
+  public async verify() {
+    await this.store.checkConsistency(this.attestor);
+  }
+
+  /** The shape of the rebuilt trees. */
+  public getConfig() {
+    return this.store.getConfig();
+  }
+
+  public listTokens() {
+    return this.store.listTokens();
+  }
+
+  /** Returns the currently blacklisted shield ids of `token`, in ascending order. */
+  public getBlacklist(token: AztecAddress) {
+    return this.store.getBlacklist(token);
+  }
+
+  public async getSiblingPath(token: AztecAddress, shieldId: bigint) {
+    return await this.store.getSiblingPath(token, shieldId);
+  }
+
+  public async getSiblingPaths(token: AztecAddress, shieldIds: bigint[]) {
+    const proofs = [];
+    for (const shieldId of shieldIds) {
+      proofs.push(await this.getSiblingPath(token, shieldId));
+    }
+    return proofs;
+  }
+
+  public async getChainedSiblingPaths(token: AztecAddress, shieldIds: bigint[], present: boolean) {
+    return await this.store.getChainedSiblingPaths(token, shieldIds, present);
+  }
+
+  public async getRoot(token: AztecAddress) {
+    return await this.store.getRoot(token);
+  }
+
+  public async isNotBlacklisted(token: AztecAddress, shieldId: bigint) {
+    return await this.store.isNotBlacklisted(token, shieldId);
+  }
+}
+
+/** Pairs up the Attestor's logs into blacklist updates, see `decodeBlacklistLogPairs`. */
+export function parseBlacklistLogs(logs: ExtendedUnencryptedL2Log[]): BlacklistLogEntry[] {
+  return groupLogsByTx(logs).flatMap(decodeBlacklistLogPairs);
+}
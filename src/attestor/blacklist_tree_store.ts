@@ -0,0 +1,240 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { AztecAddress, Fr, LogId } from '@aztec/aztec.js';
+import { AztecKVStore, AztecMap, AztecSingleton } from '@aztec/kv-store';
+import { AztecLmdbStore } from '@aztec/kv-store/lmdb';
+import { openTmpStore } from '@aztec/kv-store/utils';
+import { SparseTree, loadTree, newTree } from '@aztec/merkle-tree';
+
+import {
+  BlacklistTreeConfig,
+  DEFAULT_TREE_CONFIG,
+  MEMBER_LEAF,
+  createHasher,
+  validateTreeConfig,
+} from '../common_types/index.js';
+
+const ABSENT = new Fr(0);
+const PRESENT = new Fr(MEMBER_LEAF);
+
+/**
+ * Keeps one blacklist tree per token in a kv-store, together with the set of blacklisted shield ids so that trees can
+ * be snapshotted and restored. Every update is committed, so a store opened on disk survives restarts.
+ *
+ * The set of members, the log an update came from and the leaf to write land in one kv transaction before the tree is
+ * touched, and a leaf left unwritten by a crash is written when the store is next used. A restarted indexer can thus
+ * resume after the last applied log without applying any update twice.
+ */
+export class BlacklistTreeStore {
+  private trees: Map<string, SparseTree> = new Map();
+  // Blacklisted shield ids (as decimal strings) by token
+  private members: AztecMap<string, string[]>;
+  // Blacklisted shield ids by `${token}:${root}`
+  private snapshots: AztecMap<string, string[]>;
+  // Last block whose logs have been applied by an indexer
+  private syncedToBlock: AztecSingleton<number>;
+  // Id of the last log applied by an indexer
+  private syncedToLog: AztecSingleton<string>;
+  // The leaf update whose members are stored but which the tree may not have committed yet
+  private pendingLeaf: AztecSingleton<string>;
+
+  constructor(private db: AztecKVStore, private config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG) {
+    validateTreeConfig(config);
+    // Untouched leaves of a `SparseTree` are zero
+    if (config.emptyLeaf !== 0n) {
+      throw new Error(`Blacklist trees are stored with an empty leaf of 0, got ${config.emptyLeaf}`);
+    }
+    this.members = db.openMap('blacklist_members');
+    this.snapshots = db.openMap('blacklist_snapshots');
+    this.syncedToBlock = db.openSingleton('blacklist_synced_to_block');
+    this.syncedToLog = db.openSingleton('blacklist_synced_to_log');
+    this.pendingLeaf = db.openSingleton('blacklist_pending_leaf');
+  }
+
+  /** Opens a store persisted under `dataDir`, or a temporary one if no directory is given. */
+  public static open(dataDir?: string, config?: BlacklistTreeConfig) {
+    return new BlacklistTreeStore(dataDir ? AztecLmdbStore.open(dataDir) : openTmpStore(), config);
+  }
+
+  public getConfig() {
+    return this.config;
+  }
+
+  public getSyncedToBlock() {
+    return this.syncedToBlock.get() ?? 0;
+  }
+
+  public async setSyncedToBlock(blockNumber: number) {
+    await this.syncedToBlock.set(blockNumber);
+  }
+
+  /** Id of the log of the last update applied with one, to resume an interrupted sync after. */
+  public getSyncedToLog() {
+    const id = this.syncedToLog.get();
+    return id === undefined ? undefined : LogId.fromString(id);
+  }
+
+  public listTokens() {
+    return Array.from(this.members.keys()).map(token => AztecAddress.fromString(token));
+  }
+
+  public async getTree(token: AztecAddress) {
+    await this.writePendingLeaf();
+    return await this.openTree(token);
+  }
+
+  /** Blacklists `shieldId`, recording `logId` as the last applied log if the update comes from one. */
+  public async addToBlacklist(token: AztecAddress, shieldId: bigint, logId?: LogId) {
+    await this.setLeaf(token, shieldId, true, logId);
+  }
+
+  /** Removes `shieldId` from the blacklist, recording `logId` as the last applied log if the update comes from one. */
+  public async removeFromBlacklist(token: AztecAddress, shieldId: bigint, logId?: LogId) {
+    await this.setLeaf(token, shieldId, false, logId);
+  }
+
+  /** Returns the blacklisted shield ids of `token`, in ascending order. */
+  public getBlacklist(token: AztecAddress) {
+    return (this.members.get(token.toString()) ?? []).map(BigInt).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  public async getSiblingPath(token: AztecAddress, shieldId: bigint) {
+    const tree = await this.getTree(token);
+    return (await tree.getSiblingPath(shieldId, true))!.toFields();
+  }
+
+  /**
+   * Returns the sibling paths for applying updates to `shieldIds` one after the other, each taken against the root
+   * left by the previous update. The tree itself is left untouched.
+   */
+  public async getChainedSiblingPaths(token: AztecAddress, shieldIds: bigint[], present: boolean) {
+    const tree = await this.getTree(token);
+    const siblingPaths = [];
+    try {
+      for (const shieldId of shieldIds) {
+        siblingPaths.push((await tree.getSiblingPath(shieldId, true))!.toFields());
+        await tree.updateLeaf((present ? PRESENT : ABSENT).toBuffer(), shieldId);
+      }
+    } finally {
+      await tree.rollback();
+    }
+    return siblingPaths;
+  }
+
+  public async getRoot(token: AztecAddress) {
+    const tree = await this.getTree(token);
+    return Fr.fromBuffer(await tree.getRoot(true)).toBigInt();
+  }
+
+  public async isNotBlacklisted(token: AztecAddress, shieldId: bigint) {
+    const tree = await this.getTree(token);
+    return Fr.fromBuffer((await tree.getLeafValue(shieldId, true))!).equals(ABSENT);
+  }
+
+  /** Records the current blacklist of `token` so that it can later be restored by its root. */
+  public async snapshot(token: AztecAddress) {
+    const root = await this.getRoot(token);
+    await this.snapshots.set(snapshotKey(token, root), this.members.get(token.toString()) ?? []);
+    return root;
+  }
+
+  public hasSnapshot(token: AztecAddress, root: bigint) {
+    return this.snapshots.has(snapshotKey(token, root));
+  }
+
+  /** Rolls the tree of `token` back (or forward) to a previously snapshotted root. */
+  public async restore(token: AztecAddress, root: bigint) {
+    const snapshot = this.snapshots.get(snapshotKey(token, root));
+    if (!snapshot) {
+      throw new Error(`No snapshot of ${token} at root ${root}`);
+    }
+
+    const target = new Set(snapshot.map(BigInt));
+    const current = new Set(this.getBlacklist(token));
+    for (const shieldId of current) {
+      if (!target.has(shieldId)) {
+        await this.setLeaf(token, shieldId, false);
+      }
+    }
+    for (const shieldId of target) {
+      if (!current.has(shieldId)) {
+        await this.setLeaf(token, shieldId, true);
+      }
+    }
+
+    const restored = await this.getRoot(token);
+    if (restored !== root) {
+      throw new Error(`Restored root ${restored} of ${token} does not match snapshot root ${root}`);
+    }
+  }
+
+  /** Checks that the root of every stored token matches the root stored by the Attestor. */
+  public async checkConsistency(attestor: AttestorContract) {
+    const mismatches: string[] = [];
+    for (const token of this.listTokens()) {
+      const expected = await attestor.methods.get_blacklist_root(token).view();
+      const actual = await this.getRoot(token);
+      if (expected !== actual) {
+        mismatches.push(`${token}: stored ${actual}, on-chain ${expected}`);
+      }
+    }
+    if (mismatches.length > 0) {
+      throw new Error(`Blacklist root mismatch for ${mismatches.length} token(s): ${mismatches.join('; ')}`);
+    }
+  }
+
+  private async openTree(token: AztecAddress) {
+    const key = token.toString();
+    if (!this.trees.has(key)) {
+      const name = `blacklist:${key}`;
+      const hasher = createHasher(this.config);
+      if (this.members.has(key)) {
+        const tree = await loadTree(SparseTree, this.db, hasher, name);
+        if (tree.getDepth() !== this.config.depth) {
+          throw new Error(`Stored blacklist of ${token} has depth ${tree.getDepth()}, expected ${this.config.depth}`);
+        }
+        this.trees.set(key, tree);
+      } else {
+        this.trees.set(key, await newTree(SparseTree, this.db, hasher, name, this.config.depth));
+        await this.members.set(key, []);
+      }
+    }
+    return this.trees.get(key)!;
+  }
+
+  private async setLeaf(token: AztecAddress, shieldId: bigint, present: boolean, logId?: LogId) {
+    await this.getTree(token);
+
+    const key = token.toString();
+    const members = new Set(this.members.get(key));
+    if (present) {
+      members.add(shieldId.toString());
+    } else {
+      members.delete(shieldId.toString());
+    }
+    await this.db.transaction(() => {
+      void this.members.set(key, Array.from(members));
+      void this.pendingLeaf.set(JSON.stringify({ token: key, shieldId: shieldId.toString(), present }));
+      if (logId) {
+        void this.syncedToLog.set(logId.toString());
+      }
+    });
+    await this.writePendingLeaf();
+  }
+
+  /** Writes the leaf of the last update to its tree, which is a no-op if the tree already committed it. */
+  private async writePendingLeaf() {
+    const pending = this.pendingLeaf.get();
+    if (pending === undefined) {
+      return;
+    }
+    const { token, shieldId, present } = JSON.parse(pending);
+    const tree = await this.openTree(AztecAddress.fromString(token));
+    await tree.updateLeaf((present ? PRESENT : ABSENT).toBuffer(), BigInt(shieldId));
+    await tree.commit();
+    await this.pendingLeaf.delete();
+  }
+}
+
+function snapshotKey(token: AztecAddress, root: bigint) {
+  return `${token}:${new Fr(root)}`;
+}
@@ -0,0 +1,72 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { TokenContract } from '../artifacts/Token.js';
+import { AztecAddress, ContractArtifact, Wallet } from '@aztec/aztec.js';
+
+import {
+  BOUNDED_VEC_LEN,
+  BlacklistTreeConfig,
+  DEFAULT_TREE_CONFIG,
+  computeEmptyRoot,
+  validateTreeConfig,
+} from '../common_types/index.js';
+
+/** Returns the length of the array parameter `param` of `functionName`, as laid out by the compiler. */
+function getArrayLength(artifact: ContractArtifact, functionName: string, param: string) {
+  const type = artifact.functions.find(fn => fn.name === functionName)?.parameters.find(p => p.name === param)?.type;
+  if (type?.kind !== 'array') {
+    throw new Error(`${artifact.name} has no array parameter ${param} in ${functionName}`);
+  }
+  return type.length;
+}
+
+/** Returns the `DEPTH` the Attestor was compiled with, the length of a blacklist proof. */
+export function getAttestorTreeDepth(artifact: ContractArtifact) {
+  return getArrayLength(artifact, 'is_not_blacklisted', 'proof');
+}
+
+/** Returns the `DEPTH` the Token was compiled with, from the proofs `request_attestation` takes for every slot. */
+export function getTokenTreeDepth(artifact: ContractArtifact) {
+  return getArrayLength(artifact, 'request_attestation', 'proofs') / BOUNDED_VEC_LEN;
+}
+
+/**
+ * Checks that a deployed Attestor was compiled with the same tree as `config`: the depth of its proofs, and the root
+ * of an empty blacklist derived from the config, which also covers the hasher and the empty leaf.
+ */
+export async function checkTreeConfig(attestor: AttestorContract, config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG) {
+  validateTreeConfig(config);
+  const depth = getAttestorTreeDepth(attestor.artifact);
+  if (depth !== config.depth) {
+    throw new Error(`Attestor at ${attestor.address} uses blacklist trees of depth ${depth}, expected ${config.depth}`);
+  }
+
+  // Blacklists that were never updated read as `EMPTY_ROOT`, which a random token's is
+  const emptyRoot = await attestor.methods.get_blacklist_root(AztecAddress.random()).view();
+  const expected = computeEmptyRoot(config);
+  if (emptyRoot !== expected) {
+    throw new Error(
+      `Attestor at ${attestor.address} has an empty blacklist root of ${emptyRoot}, ` +
+        `expected ${expected} for a ${config.hasher} tree of depth ${config.depth}`,
+    );
+  }
+}
+
+/** Checks that a deployed Token takes proofs for blacklist trees of `config.depth`. */
+export function checkTokenTreeConfig(token: TokenContract, config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG) {
+  const depth = getTokenTreeDepth(token.artifact);
+  if (depth !== config.depth) {
+    throw new Error(`Token at ${token.address} takes proofs of depth ${depth}, expected ${config.depth}`);
+  }
+}
+
+/** Deploys an Attestor administered by `admin` and checks that it was compiled for `config`. */
+export async function deployAttestor(
+  wallet: Wallet,
+  admin: AztecAddress,
+  config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG,
+) {
+  validateTreeConfig(config);
+  const attestor = await AttestorContract.deploy(wallet, admin).send().deployed();
+  await checkTreeConfig(attestor, config);
+  return attestor;
+}
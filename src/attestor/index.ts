@@ -0,0 +1,9 @@
+export * from './blacklist_indexer.js';
+export * from './blacklist_tree_store.js';
+export * from './sibling_path_provider.js';
+export * from './attestation_proofs.js';
+export * from './blacklist_batch.js';
+export * from './blacklist_import.js';
+export * from './deploy.js';
+export * from './proof_server.js';
+export * from './proof_client.js';
@@ -0,0 +1,83 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+import { BlacklistedShieldIdError } from './attestation_proofs.js';
+import {
+  AttestationProofsResponse,
+  BlacklistedResponse,
+  ErrorResponse,
+  ProofSource,
+  RootResponse,
+  SiblingPathsResponse,
+} from './proof_server.js';
+
+type CachedResponse = {
+  etag: string;
+  body: unknown;
+};
+
+/**
+ * Client of a `ProofServer`. Drops in for an `AttestorSimulator` or `BlacklistIndexer` wherever sibling paths are
+ * needed. Responses are cached by their `ETag`, so repeated requests against an unchanged blacklist are answered with
+ * `304 Not Modified`.
+ */
+export class ProofClient implements ProofSource {
+  private cache: Map<string, CachedResponse> = new Map();
+
+  constructor(private url: string) {}
+
+  public async getRoot(token: AztecAddress) {
+    const { root } = await this.get<RootResponse>(`/tokens/${token}/root`);
+    return BigInt(root);
+  }
+
+  public async getSiblingPaths(token: AztecAddress, shieldIds: bigint[]) {
+    return (await this.getSiblingPathsAt(token, shieldIds)).siblingPaths;
+  }
+
+  public async getSiblingPath(token: AztecAddress, shieldId: bigint) {
+    return (await this.getSiblingPaths(token, [shieldId]))[0];
+  }
+
+  /** Returns sibling paths together with the root they prove against. */
+  public async getSiblingPathsAt(token: AztecAddress, shieldIds: bigint[]) {
+    const { root, siblingPaths } = await this.get<SiblingPathsResponse>(
+      `/tokens/${token}/sibling-paths?shieldIds=${shieldIds.join(',')}`,
+    );
+    return { root: BigInt(root), siblingPaths: siblingPaths.map(path => path.map(node => Fr.fromString(node))) };
+  }
+
+  /**
+   * Returns the flattened, padded proofs and root `request_attestation` takes for a note with these shield ids. Throws
+   * a `BlacklistedShieldIdError` if some of them are blacklisted.
+   */
+  public async getAttestationProofs(token: AztecAddress, shieldIds: bigint[]) {
+    const { root, proofs } = await this.get<AttestationProofsResponse>(
+      `/tokens/${token}/attestation-proofs?shieldIds=${shieldIds.join(',')}`,
+    );
+    return { root: BigInt(root), proofs: proofs.map(node => Fr.fromString(node)) };
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const cached = this.cache.get(path);
+    const response = await fetch(`${this.url}${path}`, {
+      headers: cached ? { 'If-None-Match': cached.etag } : {},
+    });
+    if (response.status === 304 && cached) {
+      return cached.body as T;
+    }
+
+    const body = await response.json();
+    if (response.status === 409) {
+      const { root, shieldIds } = body as BlacklistedResponse;
+      throw new BlacklistedShieldIdError(shieldIds.map(BigInt), BigInt(root));
+    }
+    if (!response.ok) {
+      throw new Error(`Proof server returned ${response.status} for ${path}: ${(body as ErrorResponse).error}`);
+    }
+    const etag = response.headers.get('ETag');
+    if (etag) {
+      this.cache.set(path, { etag, body });
+    }
+    return body as T;
+  }
+}
@@ -0,0 +1,225 @@
+import { AztecAddress, DebugLogger, Fr, createDebugLogger } from '@aztec/aztec.js';
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+
+import {
+  BOUNDED_VEC_LEN,
+  BlacklistTreeConfig,
+  BoundedVec2,
+  DEFAULT_TREE_CONFIG,
+  PartitionTable,
+} from '../common_types/index.js';
+import { BlacklistedShieldIdError, buildAttestationProofs } from './attestation_proofs.js';
+import { SiblingPathProvider } from './sibling_path_provider.js';
+
+/** What the proof server serves from, e.g. an `AttestorSimulator` or a synced `BlacklistIndexer`. */
+export interface ProofSource extends SiblingPathProvider {
+  getRoot(token: AztecAddress): Promise<bigint>;
+}
+
+/** Body of `GET /tokens/:token/root`. */
+export type RootResponse = {
+  token: string;
+  root: string;
+};
+
+/** Body of `GET /tokens/:token/sibling-paths?shieldIds=...`, one path per requested shield id. */
+export type SiblingPathsResponse = RootResponse & {
+  shieldIds: string[];
+  siblingPaths: string[][];
+};
+
+/** Body of `GET /tokens/:token/attestation-proofs?shieldIds=...`, ready to pass to `request_attestation`. */
+export type AttestationProofsResponse = RootResponse & {
+  /** The requested shield ids, padded with zeros to one per slot of a partition table. */
+  shieldIds: string[];
+  proofs: string[];
+};
+
+export type ErrorResponse = {
+  error: string;
+};
+
+/** Body of the `409 Conflict` answering attestation proofs for shield ids that are blacklisted. */
+export type BlacklistedResponse = ErrorResponse & {
+  /** The root under which the shield ids are blacklisted. */
+  root: string;
+  shieldIds: string[];
+};
+
+// How many times to re-read the paths of a source that was updated while they were being read
+const MAX_READS = 3;
+
+class BadRequestError extends Error {}
+
+/**
+ * Serves blacklist roots and proofs over HTTP, so that wallets can build `request_attestation` calls without keeping
+ * the blacklist trees themselves. Every response carries the root it was built against as its `ETag`, and requests
+ * whose `If-None-Match` still matches the current root are answered with `304 Not Modified`.
+ */
+export class ProofServer {
+  private server?: Server;
+
+  constructor(
+    protected source: ProofSource,
+    protected config: BlacklistTreeConfig = DEFAULT_TREE_CONFIG,
+    protected logger: DebugLogger = createDebugLogger('box:proof_server'),
+  ) {}
+
+  /** Starts listening and returns the base url. Port 0 picks a free port. */
+  public async start(port = 0, host = '127.0.0.1') {
+    if (this.server) {
+      throw new Error('Proof server is already running');
+    }
+    const server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+
+    const url = `http://${host}:${(server.address() as AddressInfo).port}`;
+    this.logger(`Serving blacklist proofs at ${url}`);
+    return url;
+  }
+
+  public async stop() {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    try {
+      if (req.method !== 'GET') {
+        return this.send(res, 405, { error: `Method ${req.method} not allowed` });
+      }
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const [, tokens, tokenParam, resource, ...rest] = url.pathname.split('/');
+      if (tokens !== 'tokens' || !tokenParam || rest.length > 0) {
+        return this.send(res, 404, { error: `Not found: ${url.pathname}` });
+      }
+      const token = parseAddress(tokenParam);
+
+      switch (resource) {
+        case 'root': {
+          const root = await this.source.getRoot(token);
+          return this.sendVersioned(req, res, root, { token: token.toString(), root: new Fr(root).toString() });
+        }
+        case 'sibling-paths': {
+          const shieldIds = parseShieldIds(url.searchParams.get('shieldIds'), this.config.depth);
+          const { root, result } = await this.readConsistently(token, () =>
+            this.source.getSiblingPaths(token, shieldIds),
+          );
+          return this.sendVersioned<SiblingPathsResponse>(req, res, root, {
+            token: token.toString(),
+            root: new Fr(root).toString(),
+            shieldIds: shieldIds.map(shieldId => new Fr(shieldId).toString()),
+            siblingPaths: result.map(path => path.map(node => node.toString())),
+          });
+        }
+        case 'attestation-proofs': {
+          const shieldIds = parseShieldIds(url.searchParams.get('shieldIds'), this.config.depth);
+          if (shieldIds.length > BOUNDED_VEC_LEN) {
+            throw new BadRequestError(`A partition table holds at most ${BOUNDED_VEC_LEN} shield ids`);
+          }
+          const table = new PartitionTable(
+            BoundedVec2.from(shieldIds, BOUNDED_VEC_LEN),
+            BoundedVec2.empty(BOUNDED_VEC_LEN),
+          );
+          const { root, result } = await this.readConsistently(token, root =>
+            buildAttestationProofs(this.source, token, table, root, this.config),
+          );
+          return this.sendVersioned<AttestationProofsResponse>(req, res, root, {
+            token: token.toString(),
+            root: new Fr(root).toString(),
+            shieldIds: table.shieldIds.elems.map(shieldId => new Fr(shieldId).toString()),
+            proofs: result.map(node => node.toString()),
+          });
+        }
+        default:
+          return this.send(res, 404, { error: `Not found: ${url.pathname}` });
+      }
+    } catch (err) {
+      if (err instanceof BadRequestError) {
+        return this.send(res, 400, { error: err.message });
+      }
+      if (err instanceof BlacklistedShieldIdError) {
+        return this.send<BlacklistedResponse>(res, 409, {
+          error: err.message,
+          root: new Fr(err.root).toString(),
+          shieldIds: err.shieldIds.map(shieldId => new Fr(shieldId).toString()),
+        });
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger(`Failed to serve ${req.url}: ${message}`);
+      return this.send(res, 500, { error: message });
+    }
+  }
+
+  /** Reads from the source until the root is the same before and after, so that the result matches the root. */
+  private async readConsistently<T>(token: AztecAddress, read: (root: bigint) => Promise<T>) {
+    for (let i = 0; i < MAX_READS; i++) {
+      const root = await this.source.getRoot(token);
+      const result = await read(root);
+      if ((await this.source.getRoot(token)) === root) {
+        return { root, result };
+      }
+    }
+    throw new Error(`Blacklist of ${token} kept changing while reading ${MAX_READS} times`);
+  }
+
+  private sendVersioned<T>(req: IncomingMessage, res: ServerResponse, root: bigint, body: T) {
+    const etag = rootVersion(root);
+    res.setHeader('ETag', etag);
+    if (req.headers['if-none-match'] === etag) {
+      res.statusCode = 304;
+      res.end();
+      return;
+    }
+    this.send(res, 200, body);
+  }
+
+  private send<T>(res: ServerResponse, status: number, body: T | ErrorResponse) {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+}
+
+/** The `ETag` of everything served for a blacklist with the given root. */
+export function rootVersion(root: bigint) {
+  return `"${new Fr(root).toString()}"`;
+}
+
+function parseAddress(value: string) {
+  try {
+    return AztecAddress.fromString(value);
+  } catch {
+    throw new BadRequestError(`Invalid token address ${value}`);
+  }
+}
+
+/** Parses comma separated leaf indices of a tree of `depth`. */
+function parseShieldIds(value: string | null, depth: number) {
+  if (!value) {
+    throw new BadRequestError('Missing shieldIds');
+  }
+  return value.split(',').map(item => {
+    let shieldId: bigint | undefined;
+    try {
+      // `BigInt` takes a blank string as zero
+      shieldId = item.trim() === '' ? undefined : BigInt(item);
+    } catch {
+      shieldId = undefined;
+    }
+    if (shieldId === undefined || shieldId < 0n || shieldId >= 2n ** BigInt(depth)) {
+      throw new BadRequestError(`Invalid shield id "${item}", expected an integer from 0 to 2^${depth} - 1`);
+    }
+    return shieldId;
+  });
+}
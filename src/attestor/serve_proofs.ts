@@ -0,0 +1,51 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { AztecAddress, createDebugLogger } from '@aztec/aztec.js';
+import { getInitialTestAccountsWallets } from '@aztec/accounts/testing';
+
+import { setupEnvironment } from '../environment/index.js';
+import { BlacklistIndexer } from './blacklist_indexer.js';
+import { BlacklistTreeStore } from './blacklist_tree_store.js';
+import { checkTreeConfig } from './deploy.js';
+import { ProofServer } from './proof_server.js';
+
+// Serves the blacklists of a deployed Attestor, rebuilt from its logs, against a local sandbox:
+// `ATTESTOR_ADDRESS=0x... yarn serve:proofs`
+const {
+  ATTESTOR_ADDRESS,
+  PROOF_SERVER_PORT = '8081',
+  PROOF_SERVER_HOST = '127.0.0.1',
+  BLACKLIST_DATA_DIR,
+  SYNC_INTERVAL_MS = '5000',
+} = process.env;
+
+const logger = createDebugLogger('box:serve_proofs');
+
+async function main() {
+  if (!ATTESTOR_ADDRESS) {
+    throw new Error('Set ATTESTOR_ADDRESS to the address of the Attestor to serve');
+  }
+  const pxe = await setupEnvironment();
+  const [wallet] = await getInitialTestAccountsWallets(pxe);
+  const attestor = await AttestorContract.at(AztecAddress.fromString(ATTESTOR_ADDRESS), wallet);
+
+  const store = BlacklistTreeStore.open(BLACKLIST_DATA_DIR);
+  await checkTreeConfig(attestor, store.getConfig());
+  const indexer = new BlacklistIndexer(pxe, attestor, store);
+  await indexer.sync();
+  // Syncs must not overlap, as every log toggles a leaf
+  const syncLoop = () =>
+    setTimeout(async () => {
+      await indexer.sync().catch(err => logger(`Failed to sync: ${err.message}`));
+      syncLoop();
+    }, Number(SYNC_INTERVAL_MS));
+  syncLoop();
+
+  const server = new ProofServer(indexer, store.getConfig());
+  const url = await server.start(Number(PROOF_SERVER_PORT), PROOF_SERVER_HOST);
+  logger(`Serving the blacklists of ${attestor.address} at ${url}`);
+}
+
+main().catch(err => {
+  logger(`Proof server failed: ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,8 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+/** Anything that can produce blacklist sibling paths, e.g. an `AttestorSimulator` or a `BlacklistIndexer`. */
+export interface SiblingPathProvider {
+  getSiblingPaths(token: AztecAddress, shieldIds: bigint[]): Promise<Fr[][]>;
+  /** Catches up with the latest blacklist, for providers that follow the chain. */
+  sync?(): Promise<void>;
+}
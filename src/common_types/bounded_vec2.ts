@@ -0,0 +1,99 @@
+import { Fr } from '@aztec/foundation/fields';
+
+/** A `BoundedVec2` as returned by contract views. */
+export type NoirBoundedVec2 = {
+  len: bigint | number;
+  elems: (bigint | number)[];
+};
+
+/**
+ * Mirror of `common_types/src/bounded_vec2.nr`: a fixed capacity array of fields of which the first `len` are in use.
+ * Unused slots are kept (and serialized) as they are, just like in Noir.
+ */
+export class BoundedVec2 {
+  constructor(public len: number, public elems: bigint[]) {}
+
+  public static empty(maxLen: number) {
+    return new BoundedVec2(0, Array(maxLen).fill(0n));
+  }
+
+  public static from(items: bigint[], maxLen: number) {
+    const vec = BoundedVec2.empty(maxLen);
+    items.forEach(item => vec.push(item));
+    return vec;
+  }
+
+  public get maxLen() {
+    return this.elems.length;
+  }
+
+  /** Returns the elements in use. */
+  public items() {
+    return this.elems.slice(0, this.len);
+  }
+
+  public isEmpty() {
+    return this.len === 0;
+  }
+
+  public at(index: number) {
+    return this.elems[index];
+  }
+
+  public push(item: bigint) {
+    // The Noir version writes to `elems[len]` unchecked, which fails the circuit once the vector is full
+    if (this.len >= this.maxLen) {
+      throw new Error(`BoundedVec2 overflow: cannot push beyond ${this.maxLen} elements`);
+    }
+    this.elems[this.len] = item;
+    this.len += 1;
+  }
+
+  public contains(item: bigint) {
+    return this.items().includes(item);
+  }
+
+  /** Elements of `this` followed by the elements of `other` that `this` does not contain. */
+  public or(other: BoundedVec2) {
+    const res = BoundedVec2.empty(this.maxLen);
+    this.items().forEach(item => res.push(item));
+    other.items().forEach(item => !this.contains(item) && res.push(item));
+    return res;
+  }
+
+  /** Elements of `other` that `this` contains, in the order of `other`. */
+  public and(other: BoundedVec2) {
+    const res = BoundedVec2.empty(this.maxLen);
+    other
+      .items()
+      .slice(0, this.maxLen)
+      .forEach(item => this.contains(item) && res.push(item));
+    return res;
+  }
+
+  public clone() {
+    return new BoundedVec2(this.len, [...this.elems]);
+  }
+
+  public serialize(): Fr[] {
+    return [new Fr(this.len), ...this.elems.map(elem => new Fr(elem))];
+  }
+
+  public static deserialize(fields: Fr[], maxLen: number) {
+    if (fields.length !== maxLen + 1) {
+      throw new Error(`Expected ${maxLen + 1} fields to deserialize a BoundedVec2, got ${fields.length}`);
+    }
+    return new BoundedVec2(
+      Number(fields[0].toBigInt()),
+      fields.slice(1).map(field => field.toBigInt()),
+    );
+  }
+
+  public toNoirStruct() {
+    return { len: this.len, elems: [...this.elems] };
+  }
+
+  public static fromNoirStruct(struct: NoirBoundedVec2) {
+    return new BoundedVec2(Number(struct.len), struct.elems.map(BigInt));
+  }
+}
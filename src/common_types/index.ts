@@ -0,0 +1,4 @@
+export * from './bounded_vec2.js';
+export * from './partition_table.js';
+export * as smt from './smt.js';
+export * from './tree_config.js';
@@ -0,0 +1,113 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { Fr } from '@aztec/foundation/fields';
+
+import { BoundedVec2, NoirBoundedVec2 } from './bounded_vec2.js';
+
+export const BOUNDED_VEC_LEN = 6;
+export const PARTITION_TABLE_LEN = 2 * (BOUNDED_VEC_LEN + 1) + 2;
+
+/** A `PartitionTable` as taken and returned by the contracts' generated interfaces. */
+export type NoirPartitionTable = {
+  shield_ids: NoirBoundedVec2;
+  attestations: NoirBoundedVec2;
+  max_block_number: bigint | number;
+  is_table_cleared: boolean;
+};
+
+/** Mirror of `common_types/src/partition_table.nr`. */
+export class PartitionTable {
+  constructor(
+    /** The origin shield deposit ids. */
+    public shieldIds: BoundedVec2,
+    /** Addresses of the attestors that attested the note. */
+    public attestations: BoundedVec2,
+    /** The older the block number, the less risky the shield is. */
+    public maxBlockNumber: bigint = 0n,
+    public isTableCleared: boolean = false,
+  ) {}
+
+  public static empty() {
+    return new PartitionTable(BoundedVec2.empty(BOUNDED_VEC_LEN), BoundedVec2.empty(BOUNDED_VEC_LEN));
+  }
+
+  public static withSingleShieldId(shieldId: bigint) {
+    const table = PartitionTable.empty();
+    table.shieldIds.push(shieldId);
+    return table;
+  }
+
+  public isEmpty() {
+    return this.shieldIds.isEmpty() && this.attestations.isEmpty();
+  }
+
+  public hasAttestation(attestor: AztecAddress) {
+    return this.attestations.contains(attestor.toBigInt());
+  }
+
+  /** Combines the tables of two notes: the union of their origins and the intersection of their attestations. */
+  public join(other: PartitionTable) {
+    if (this.isEmpty()) {
+      return other;
+    } else if (other.isEmpty()) {
+      return this;
+    }
+    return new PartitionTable(
+      this.shieldIds.or(other.shieldIds),
+      this.attestations.and(other.attestations),
+      this.maxBlockNumber > other.maxBlockNumber ? this.maxBlockNumber : other.maxBlockNumber,
+      this.isTableCleared && other.isTableCleared,
+    );
+  }
+
+  public clone() {
+    return new PartitionTable(
+      this.shieldIds.clone(),
+      this.attestations.clone(),
+      this.maxBlockNumber,
+      this.isTableCleared,
+    );
+  }
+
+  public serialize(): Fr[] {
+    return [
+      ...this.shieldIds.serialize(),
+      ...this.attestations.serialize(),
+      new Fr(this.maxBlockNumber),
+      new Fr(this.isTableCleared ? 1n : 0n),
+    ];
+  }
+
+  public static deserialize(fields: Fr[]) {
+    if (fields.length !== PARTITION_TABLE_LEN) {
+      throw new Error(`Expected ${PARTITION_TABLE_LEN} fields to deserialize a PartitionTable, got ${fields.length}`);
+    }
+    let offset = 0;
+    const shieldIds = BoundedVec2.deserialize(fields.slice(offset, offset + BOUNDED_VEC_LEN + 1), BOUNDED_VEC_LEN);
+    offset += BOUNDED_VEC_LEN + 1;
+    const attestations = BoundedVec2.deserialize(fields.slice(offset, offset + BOUNDED_VEC_LEN + 1), BOUNDED_VEC_LEN);
+    offset += BOUNDED_VEC_LEN + 1;
+    const maxBlockNumber = fields[offset].toBigInt();
+    offset += 1;
+    const isTableCleared = !fields[offset].isZero();
+    return new PartitionTable(shieldIds, attestations, maxBlockNumber, isTableCleared);
+  }
+
+  /** Converts the table to the argument shape expected by e.g. `AttestorContract.methods.request_attestation`. */
+  public toNoirStruct(): NoirPartitionTable {
+    return {
+      shield_ids: this.shieldIds.toNoirStruct(),
+      attestations: this.attestations.toNoirStruct(),
+      max_block_number: this.maxBlockNumber,
+      is_table_cleared: this.isTableCleared,
+    };
+  }
+
+  public static fromNoirStruct(struct: NoirPartitionTable) {
+    return new PartitionTable(
+      BoundedVec2.fromNoirStruct(struct.shield_ids),
+      BoundedVec2.fromNoirStruct(struct.attestations),
+      BigInt(struct.max_block_number),
+      struct.is_table_cleared,
+    );
+  }
+}
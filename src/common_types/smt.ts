@@ -0,0 +1,65 @@
+import { Fr } from '@aztec/foundation/fields';
+
+import { BlacklistTreeConfig, DEFAULT_TREE_CONFIG, MEMBER_LEAF, createHasher } from './tree_config.js';
+
+/**
+ * Mirror of `common_types/src/smt.nr`: a sparse merkle tree whose leaves are `1` for members and the config's empty
+ * leaf otherwise. The leaf index is walked from the least significant bit, each bit picking whether the current node
+ * is a right child. The depth is the number of siblings.
+ */
+export function computeMerkleRoot(
+  leafIndex: bigint,
+  leafValue: boolean,
+  siblings: Fr[],
+  config: Omit<BlacklistTreeConfig, 'depth'> = DEFAULT_TREE_CONFIG,
+) {
+  const depth = siblings.length;
+  if (leafIndex < 0n || leafIndex >= 1n << BigInt(depth)) {
+    throw new Error(`Leaf index ${leafIndex} does not fit in a tree of depth ${depth}`);
+  }
+
+  const hasher = createHasher(config);
+  let current = new Fr(leafValue ? MEMBER_LEAF : config.emptyLeaf).toBuffer();
+  for (let i = 0; i < depth; i++) {
+    const sibling = siblings[i].toBuffer();
+    const pathBit = (leafIndex >> BigInt(i)) & 1n;
+    current = pathBit ? hasher.hash(sibling, current) : hasher.hash(current, sibling);
+  }
+  return Fr.fromBuffer(current).toBigInt();
+}
+
+/** Verifies that `leafIndex` is not a member of the tree with the given `root`. */
+export function verify(
+  leafIndex: bigint,
+  root: bigint,
+  siblings: Fr[],
+  config: Omit<BlacklistTreeConfig, 'depth'> = DEFAULT_TREE_CONFIG,
+) {
+  return root === computeMerkleRoot(leafIndex, false, siblings, config);
+}
+
+/** Returns the root after adding `leafIndex` to the tree, which must not contain it yet. */
+export function insert(
+  leafIndex: bigint,
+  oldRoot: bigint,
+  siblings: Fr[],
+  config: Omit<BlacklistTreeConfig, 'depth'> = DEFAULT_TREE_CONFIG,
+) {
+  if (oldRoot !== computeMerkleRoot(leafIndex, false, siblings, config)) {
+    throw new Error('old_root is incorrect or already exists');
+  }
+  return computeMerkleRoot(leafIndex, true, siblings, config);
+}
+
+/** Returns the root after removing `leafIndex` from the tree, which must contain it. */
+export function remove(
+  leafIndex: bigint,
+  oldRoot: bigint,
+  siblings: Fr[],
+  config: Omit<BlacklistTreeConfig, 'depth'> = DEFAULT_TREE_CONFIG,
+) {
+  if (oldRoot !== computeMerkleRoot(leafIndex, true, siblings, config)) {
+    throw new Error("old_root is incorrect or doesn't exist");
+  }
+  return computeMerkleRoot(leafIndex, false, siblings, config);
+}
@@ -0,0 +1,74 @@
+import { poseidon2Permutation } from '@aztec/foundation/crypto';
+import { Fr } from '@aztec/foundation/fields';
+import { Pedersen } from '@aztec/merkle-tree';
+import { Hasher } from '@aztec/types/interfaces';
+
+export type TreeHasherName = 'pedersen' | 'poseidon2';
+
+/**
+ * Shape of the blacklist trees. Must match the `DEPTH` and `EMPTY_ROOT` globals of the Attestor and Token contracts
+ * and the hash used by `common_types/src/smt.nr`, which `checkTreeConfig` verifies against a deployed Attestor.
+ */
+export type BlacklistTreeConfig = {
+  depth: number;
+  hasher: TreeHasherName;
+  /** Value of the leaves of shield ids that are not blacklisted. */
+  emptyLeaf: bigint;
+};
+
+/** The configuration the contracts are compiled with. */
+export const DEFAULT_TREE_CONFIG: BlacklistTreeConfig = { depth: 32, hasher: 'pedersen', emptyLeaf: 0n };
+
+/** Leaf value of blacklisted shield ids, `true as Field` in the contracts. */
+export const MEMBER_LEAF = 1n;
+
+/**
+ * Poseidon2 two-to-one hash, as computed by `Poseidon2::hash([left, right], 2)` in Noir: a single permutation of
+ * `[left, right, 0, iv]`, where the iv encodes the message length.
+ */
+export class Poseidon2 implements Hasher {
+  public hash(lhs: Uint8Array, rhs: Uint8Array): Buffer {
+    return this.hashInputs([Buffer.from(lhs), Buffer.from(rhs)]);
+  }
+
+  public hashInputs(inputs: Buffer[]): Buffer {
+    if (inputs.length > 3) {
+      throw new Error(`Poseidon2 hashes at most 3 inputs in one permutation, got ${inputs.length}`);
+    }
+    const state = [...inputs.map(input => Fr.fromBuffer(input)), ...Array(3 - inputs.length).fill(Fr.ZERO)];
+    const iv = new Fr(BigInt(inputs.length) << 64n);
+    return poseidon2Permutation([...state, iv])[0].toBuffer();
+  }
+}
+
+export function createHasher(config: Pick<BlacklistTreeConfig, 'hasher'>): Hasher {
+  switch (config.hasher) {
+    case 'pedersen':
+      return new Pedersen();
+    case 'poseidon2':
+      return new Poseidon2();
+    default:
+      throw new Error(`Unknown tree hasher ${(config as BlacklistTreeConfig).hasher}`);
+  }
+}
+
+/** Root of a tree in which no shield id is blacklisted, the `EMPTY_ROOT` the contracts must be compiled with. */
+export function computeEmptyRoot(config: BlacklistTreeConfig) {
+  const hasher = createHasher(config);
+  let node = new Fr(config.emptyLeaf).toBuffer();
+  for (let i = 0; i < config.depth; i++) {
+    node = hasher.hash(node, node);
+  }
+  return Fr.fromBuffer(node).toBigInt();
+}
+
+/** Throws if `config` cannot describe a blacklist tree. */
+export function validateTreeConfig(config: BlacklistTreeConfig) {
+  if (!Number.isInteger(config.depth) || config.depth < 1 || config.depth > 254) {
+    throw new Error(`Tree depth must be an integer in [1, 254], got ${config.depth}`);
+  }
+  if (config.emptyLeaf === MEMBER_LEAF) {
+    throw new Error(`The empty leaf cannot be ${MEMBER_LEAF}, which marks blacklisted shield ids`);
+  }
+  createHasher(config);
+}
@@ -0,0 +1,108 @@
+import { AztecAddress } from '@aztec/aztec.js';
+
+/** What the caller knows about the failed call, copied onto the decoded error. */
+export type ContractErrorContext = {
+  /** The account that sent the call. */
+  caller?: AztecAddress;
+  /** The token the call was about. */
+  token?: AztecAddress;
+  /** The shield id the call was about. */
+  shieldId?: bigint;
+  /** The blacklist root the call was made against. */
+  root?: bigint;
+  /** The note counter the call was made with. */
+  noteCounter?: bigint;
+  /** The amount the call was about. */
+  amount?: bigint;
+};
+
+/** A simulation or transaction failure caused by a Token or Attestor assertion. */
+export class ContractError extends Error {
+  constructor(
+    /** The assertion message the failure was recognized by. */
+    public readonly reason: string,
+    /** The original failure. */
+    public readonly cause: Error,
+    public readonly context: ContractErrorContext = {},
+  ) {
+    super(cause.message);
+    this.name = new.target.name;
+  }
+}
+
+/** The caller is not the admin of the Token or the Attestor. */
+export class NotAdminError extends ContractError {}
+
+/** The caller is not a minter of the Token. */
+export class NotMinterError extends ContractError {}
+
+/** A zero address was given as admin. */
+export class InvalidAdminError extends ContractError {}
+
+/** A non-zero nonce was given for an action on one's own behalf. */
+export class InvalidNonceError extends ContractError {}
+
+/** An action on behalf of someone else was not approved with an authwit. */
+export class UnauthorizedError extends ContractError {}
+
+/** The sender's balance (or the total supply) is lower than the amount. */
+export class InsufficientBalanceError extends ContractError {}
+
+/** The amount does not fit, or the resulting balance or total supply would overflow. */
+export class BalanceOverflowError extends ContractError {}
+
+/** Another shield was redeemed with the given note counter first. */
+export class NoteCounterMismatchError extends ContractError {}
+
+/** The note to consume (e.g. a pending shield) does not exist or was already consumed. */
+export class NoteNotFoundError extends ContractError {}
+
+/** The blacklist root changed between fetching it and the attestation request. */
+export class StaleBlacklistRootError extends ContractError {}
+
+/** The shield id is already blacklisted, or the proof does not match the blacklist root. */
+export class AlreadyBlacklistedError extends ContractError {}
+
+/** The shield id is not blacklisted, or the proof does not match the blacklist root. */
+export class NotBlacklistedError extends ContractError {}
+
+type ContractErrorClass = new (reason: string, cause: Error, context?: ContractErrorContext) => ContractError;
+
+// Checked in order, the first reason found in the failure message wins
+const CONTRACT_ERRORS: [string, ContractErrorClass][] = [
+  ['caller is not admin', NotAdminError],
+  ['caller is not minter', NotMinterError],
+  ['invalid admin', InvalidAdminError],
+  ['invalid nonce', InvalidNonceError],
+  ['Message not authorized by account', UnauthorizedError],
+  ['Balance too low', InsufficientBalanceError],
+  ['attempt to subtract with underflow', InsufficientBalanceError],
+  ['attempt to add with overflow', BalanceOverflowError],
+  ['call to assert_max_bit_size', BalanceOverflowError],
+  ['invalid note_counter', NoteCounterMismatchError],
+  ['Can only remove a note that has been read from the set', NoteNotFoundError],
+  ['incorrect blacklist root', StaleBlacklistRootError],
+  ['old_root is incorrect or already exists', AlreadyBlacklistedError],
+  ["old_root is incorrect or doesn't exist", NotBlacklistedError],
+];
+
+/**
+ * Maps a failure of a Token or Attestor call to the matching `ContractError` subclass. Failures that are not
+ * recognized are returned as they are.
+ */
+export function decodeContractError(err: unknown, context: ContractErrorContext = {}): unknown {
+  if (!(err instanceof Error) || err instanceof ContractError) {
+    return err;
+  }
+  const match = CONTRACT_ERRORS.find(([reason]) => err.message.includes(reason));
+  return match ? new match[1](match[0], err, context) : err;
+}
+
+/** Awaits `promise`, rethrowing failures decoded by `decodeContractError`. */
+export async function withContractErrors<T>(promise: Promise<T>, context: ContractErrorContext = {}): Promise<T> {
+  try {
+    return await promise;
+  } catch (err) {
+    throw decodeContractError(err, context);
+  }
+}
@@ -0,0 +1,136 @@
+import { AztecAddress, ExtendedUnencryptedL2Log, Fr, LogId } from '@aztec/aztec.js';
+
+type EventBase = {
+  /** The contract that emitted the logs. */
+  contract: AztecAddress;
+  blockNumber: number;
+  /** Id of the last log of the event, to resume a stream after it. */
+  cursor: LogId;
+};
+
+/** `add_to_blacklist` or one insertion of `add_many_to_blacklist`. */
+export type BlacklistAddedEvent = EventBase & {
+  type: 'BlacklistAdded';
+  token: AztecAddress;
+  shieldId: bigint;
+};
+
+/** `remove_from_blacklist` or one removal of `remove_many_from_blacklist`. */
+export type BlacklistRemovedEvent = EventBase & {
+  type: 'BlacklistRemoved';
+  token: AztecAddress;
+  shieldId: bigint;
+};
+
+/** An `unshield`: the public balance increase and the attestations of the partition table it spent. */
+export type UnshieldAttestationsEvent = EventBase & {
+  type: 'UnshieldAttestations';
+  /** Recipient of the public balance increase. */
+  to: AztecAddress;
+  amount: bigint;
+  attestors: AztecAddress[];
+};
+
+export type ContractEvent = BlacklistAddedEvent | BlacklistRemovedEvent | UnshieldAttestationsEvent;
+
+export type ContractEventType = ContractEvent['type'];
+
+/** A `(token, shield_id)` log pair emitted by the Attestor, before it is known whether it adds or removes. */
+export type BlacklistLogPair = {
+  token: AztecAddress;
+  shieldId: bigint;
+  /** Id of the `shield_id` log of the pair. */
+  id: LogId;
+};
+
+/**
+ * Splits logs into the logs every contract emitted in every transaction, in the order they were emitted. A
+ * transaction's logs must not be split across calls.
+ */
+export function groupLogsByTx(logs: ExtendedUnencryptedL2Log[]): ExtendedUnencryptedL2Log[][] {
+  const groups: Map<string, ExtendedUnencryptedL2Log[]> = new Map();
+  for (const log of logs) {
+    const key = `${log.id.blockNumber}:${log.id.txIndex}:${log.log.contractAddress}`;
+    groups.set(key, [...(groups.get(key) ?? []), log]);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Pairs up the Attestor's logs of one transaction. Each update emits the token followed by the shield id, so the logs
+ * are consumed two at a time.
+ */
+export function decodeBlacklistLogPairs(txLogs: ExtendedUnencryptedL2Log[]): BlacklistLogPair[] {
+  if (txLogs.length % 2 !== 0) {
+    const { blockNumber, txIndex } = txLogs[0].id;
+    throw new Error(`Unpaired blacklist log in tx ${blockNumber}:${txIndex}`);
+  }
+  const pairs: BlacklistLogPair[] = [];
+  for (let i = 0; i < txLogs.length; i += 2) {
+    pairs.push({
+      token: AztecAddress.fromField(Fr.fromBuffer(txLogs[i].log.data)),
+      shieldId: Fr.fromBuffer(txLogs[i + 1].log.data).toBigInt(),
+      id: txLogs[i + 1].id,
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Decodes the logs a Token emitted in one transaction. Every `unshield` emits the attestations of the spent partition
+ * table, followed by its recipient, its amount and the number of attestations, so the logs are read back from the
+ * last one. Tokens deployed before the last three were added emit the attestations alone, which are rejected here.
+ */
+export function decodeUnshieldLogs(txLogs: ExtendedUnencryptedL2Log[]): UnshieldAttestationsEvent[] {
+  const fields = txLogs.map(log => Fr.fromBuffer(log.log.data));
+  const events: UnshieldAttestationsEvent[] = [];
+  for (let end = txLogs.length; end > 0; ) {
+    const count = end >= 3 ? fields[end - 1].toBigInt() : -1n;
+    if (count < 0n || count > BigInt(end - 3)) {
+      const { blockNumber, txIndex } = txLogs[end - 1].id;
+      throw new Error(`Truncated unshield logs in tx ${blockNumber}:${txIndex}`);
+    }
+
+    const start = end - 3 - Number(count);
+    const last = txLogs[end - 1];
+    events.push({
+      type: 'UnshieldAttestations',
+      contract: last.log.contractAddress,
+      blockNumber: last.id.blockNumber,
+      cursor: last.id,
+      to: AztecAddress.fromField(fields[end - 3]),
+      amount: fields[end - 2].toBigInt(),
+      attestors: fields.slice(start, end - 3).map(field => AztecAddress.fromField(field)),
+    });
+    end = start;
+  }
+  return events.reverse();
+}
+
+/**
+ * Tells blacklist additions from removals. Both emit the same log pair, but the Attestor only lets an insertion
+ * through when the shield id is absent and a removal when it is present, so every pair toggles membership.
+ */
+export class BlacklistMembership {
+  // Membership changed by decoded pairs, by `${token}:${shieldId}`
+  private toggled: Map<string, boolean> = new Map();
+
+  /** `isBlacklisted` gives the membership before the first decoded pair, nothing being blacklisted if not given. */
+  constructor(private isBlacklisted?: (token: AztecAddress, shieldId: bigint) => boolean | Promise<boolean>) {}
+
+  public async decode(contract: AztecAddress, { token, shieldId, id }: BlacklistLogPair) {
+    const key = `${token}:${shieldId}`;
+    const blacklisted = this.toggled.get(key) ?? (await this.isBlacklisted?.(token, shieldId)) ?? false;
+    this.toggled.set(key, !blacklisted);
+
+    const event: BlacklistAddedEvent | BlacklistRemovedEvent = {
+      type: blacklisted ? 'BlacklistRemoved' : 'BlacklistAdded',
+      contract,
+      blockNumber: id.blockNumber,
+      cursor: id,
+      token,
+      shieldId,
+    };
+    return event;
+  }
+}
@@ -0,0 +1,165 @@
+import { AztecAddress, DebugLogger, ExtendedUnencryptedL2Log, LogId, PXE, createDebugLogger } from '@aztec/aztec.js';
+
+import {
+  BlacklistMembership,
+  ContractEvent,
+  ContractEventType,
+  decodeBlacklistLogPairs,
+  decodeUnshieldLogs,
+  groupLogsByTx,
+} from './contract_events.js';
+
+export type EventStreamOptions = {
+  /** The Attestor whose blacklist updates to decode. */
+  attestor?: AztecAddress;
+  /** The Tokens whose unshield attestations to decode. */
+  tokens?: AztecAddress[];
+  /** Only events of these types, all of them if not set. */
+  types?: ContractEventType[];
+  /** First block to stream, 1 if not set. Ignored when resuming with `afterLog`. */
+  fromBlock?: number;
+  /** Last block to stream, inclusive. The latest block at the time of every poll if not set. */
+  toBlock?: number;
+  /** Resumes after the event whose `cursor` this is. */
+  afterLog?: LogId;
+  /**
+   * Whether a shield id was blacklisted before the first streamed block, for streams that do not start from the
+   * Attestor's deployment. Nothing is if not given.
+   */
+  isBlacklisted?: (token: AztecAddress, shieldId: bigint) => boolean | Promise<boolean>;
+  /** Keeps polling for new blocks instead of ending at the latest one, until `toBlock` or `signal` aborts. */
+  follow?: boolean;
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Typed events decoded from the unencrypted logs of an Attestor and any number of Tokens, in the order they were
+ * emitted. Iterating the stream fetches logs page by page, so a consumer that stops early does not fetch the rest.
+ * A stream is iterated once: to pick up where it stopped, start a new one after its cursor.
+ */
+export class EventStream implements AsyncIterable<ContractEvent> {
+  private cursor?: LogId;
+  private nextBlock: number;
+  private afterLog?: LogId;
+  private membership: BlacklistMembership;
+
+  constructor(
+    protected pxe: PXE,
+    protected options: EventStreamOptions,
+    protected logger: DebugLogger = createDebugLogger('box:event_stream'),
+  ) {
+    if (!options.attestor && !options.tokens?.length) {
+      throw new Error('Nothing to stream, set an attestor or tokens');
+    }
+    this.cursor = options.afterLog;
+    this.afterLog = options.afterLog;
+    this.nextBlock = options.afterLog?.blockNumber ?? options.fromBlock ?? 1;
+    this.membership = new BlacklistMembership(options.isBlacklisted);
+  }
+
+  /** The cursor of the last event yielded, to pass as `afterLog` to a stream that picks up where this one stopped. */
+  public getCursor() {
+    return this.cursor;
+  }
+
+  /** The first block the next poll starts from. */
+  public getNextBlock() {
+    return this.nextBlock;
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<ContractEvent> {
+    const { toBlock, follow, signal, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS } = this.options;
+    while (!signal?.aborted) {
+      const latest = await this.pxe.getBlockNumber();
+      const scanTo = toBlock === undefined ? latest : Math.min(toBlock, latest);
+      if (scanTo >= this.nextBlock) {
+        for await (const event of this.scan(scanTo)) {
+          this.cursor = event.cursor;
+          yield event;
+        }
+        this.logger(`Streamed events of blocks ${this.nextBlock} to ${scanTo}`);
+        this.nextBlock = scanTo + 1;
+        this.afterLog = undefined;
+      }
+
+      if (!follow || (toBlock !== undefined && this.nextBlock > toBlock)) {
+        return;
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  }
+
+  /** Streams the events up to and including `toBlock`, holding back transactions whose logs span two pages. */
+  private async *scan(toBlock: number) {
+    const sources = [this.options.attestor, ...(this.options.tokens ?? [])].filter(Boolean) as AztecAddress[];
+    let pending: ExtendedUnencryptedL2Log[] = [];
+    let afterLog = this.afterLog;
+    while (true) {
+      const { logs: page, maxLogsHit } = await this.pxe.getUnencryptedLogs({
+        // `toBlock` is exclusive
+        toBlock: toBlock + 1,
+        ...(afterLog ? { afterLog } : { fromBlock: this.nextBlock }),
+        ...(sources.length === 1 ? { contractAddress: sources[0] } : {}),
+      });
+      pending.push(...page);
+      if (page.length > 0) {
+        afterLog = page[page.length - 1].id;
+      }
+
+      let complete = pending;
+      if (maxLogsHit && pending.length > 0) {
+        const { blockNumber, txIndex } = pending[pending.length - 1].id;
+        const split = pending.findIndex(log => log.id.blockNumber === blockNumber && log.id.txIndex === txIndex);
+        complete = pending.slice(0, split);
+        pending = pending.slice(split);
+      } else {
+        pending = [];
+      }
+
+      for (const txLogs of groupLogsByTx(complete)) {
+        yield* this.decode(txLogs);
+      }
+      if (!maxLogsHit) {
+        return;
+      }
+    }
+  }
+
+  private async *decode(txLogs: ExtendedUnencryptedL2Log[]): AsyncGenerator<ContractEvent> {
+    const contract = txLogs[0].log.contractAddress;
+    const wanted = (event: ContractEvent) => !this.options.types || this.options.types.includes(event.type);
+
+    if (this.options.attestor?.equals(contract)) {
+      for (const pair of decodeBlacklistLogPairs(txLogs)) {
+        // Decoded even if not wanted, since every pair toggles membership
+        const event = await this.membership.decode(contract, pair);
+        if (wanted(event)) {
+          yield event;
+        }
+      }
+    } else if (this.options.tokens?.some(token => token.equals(contract))) {
+      for (const event of decodeUnshieldLogs(txLogs)) {
+        if (wanted(event)) {
+          yield event;
+        }
+      }
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>(resolve => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
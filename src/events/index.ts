@@ -0,0 +1,2 @@
+export * from './contract_events.js';
+export * from './event_stream.js';
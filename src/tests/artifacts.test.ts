@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { readFile } from 'fs/promises';
+
+import AttestorArtifactJson from '../contracts/target/attestor-Attestor.json' assert { type: 'json' };
+
+// The checked-in artifacts are only refreshed by `yarn compile && yarn codegen`, so a contract change that skips them
+// leaves the wrappers and the simulators out of line with what actually gets deployed
+describe('Contract artifacts', () => {
+  const readContract = (path: string) => readFile(new URL(`../contracts/${path}`, import.meta.url), 'utf-8');
+
+  it('has every function of the Attestor', async () => {
+    const source = await readContract('attestor/src/main.nr');
+    const functions = Array.from(
+      source.matchAll(/#\[aztec\((?:private|public)\)\]\s*(?:#\[aztec\(\w+\)\]\s*)*(?:pub\s+)?fn\s+(\w+)/g),
+      ([, name]) => name,
+    );
+    const compiled = AttestorArtifactJson.functions.map(({ name }) => name);
+    expect(functions.filter(name => !compiled.includes(name))).toEqual([]);
+  });
+
+  it('was compiled from the current sources of the Attestor', async () => {
+    // Sources are keyed by the absolute path they were compiled from, the dependencies live outside `src/contracts`
+    const sources = Object.values(AttestorArtifactJson.file_map).flatMap(({ path, source }) => {
+      const [, relative] = path.split('/src/contracts/');
+      return relative ? [{ path: relative, source }] : [];
+    });
+    expect(sources.map(({ path }) => path)).toContain('common_types/src/smt.nr');
+
+    const stale = [];
+    for (const { path, source } of sources) {
+      if ((await readContract(path)) !== source) {
+        stale.push(path);
+      }
+    }
+    expect(stale).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { TokenContract } from '../artifacts/Token.js';
+import { AztecAddress, TxHash, Wallet } from '@aztec/aztec.js';
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { PartitionTable } from '../common_types/index.js';
+import { StaleBlacklistRootError } from '../errors.js';
+import { AttestationOrchestrator, StaleRootEvent } from '../token/attestation_orchestrator.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+
+describe('AttestationOrchestrator', () => {
+  const owner = AztecAddress.random();
+  const token = AztecAddress.random();
+  const attestorAddress = AztecAddress.random();
+
+  let attestorSim: AttestorSimulator;
+  let attested: boolean;
+
+  const table = PartitionTable.withSingleShieldId(5n);
+  table.shieldIds.push(9n);
+  const note = {
+    amount: { lo: 100n, hi: 0n },
+    owner: { inner: owner.toBigInt() },
+    randomness: 7n,
+    partition_table: table.toNoirStruct(),
+  };
+
+  // Attests the note once `request_attestation` is sent against the current root, as the Attestor would
+  const tokenContract = () => {
+    const contract = {
+      address: token,
+      withWallet: () => contract,
+      methods: {
+        last_unattested_note: () => ({ view: () => Promise.resolve({ _is_some: !attested, _value: note }) }),
+        request_attestation: (_owner: AztecAddress, _attestor: AztecAddress, root: bigint) => ({
+          send: () => ({
+            wait: async () => {
+              if (root !== (await attestorSim.getRoot(token))) {
+                throw new Error("Assertion failed: incorrect blacklist root 'lhs == rhs'");
+              }
+              attested = true;
+              return { txHash: TxHash.random() };
+            },
+          }),
+        }),
+      },
+    };
+    return contract as unknown as TokenContract;
+  };
+  const attestor = {
+    address: attestorAddress,
+    methods: {
+      get_blacklist_root: (token: AztecAddress) => ({ view: () => attestorSim.getRoot(token) }),
+    },
+  } as unknown as AttestorContract;
+  const wallet = { getAddress: () => owner } as unknown as Wallet;
+
+  /** Serves the simulator's sibling paths, running `race` before or after computing them on the first call only. */
+  const racingProofs = (race: () => Promise<void>, when: 'before' | 'after', calls = 1) => ({
+    getSiblingPaths: async (token: AztecAddress, shieldIds: bigint[]) => {
+      const racing = calls-- > 0;
+      if (racing && when === 'before') {
+        await race();
+      }
+      const proofs = await attestorSim.getSiblingPaths(token, shieldIds);
+      if (racing && when === 'after') {
+        await race();
+      }
+      return proofs;
+    },
+  });
+
+  const attestAll = async (proofs: ReturnType<typeof racingProofs> | AttestorSimulator, maxAttempts?: number) => {
+    const orchestrator = new AttestationOrchestrator(wallet, tokenContract(), attestor, proofs, undefined, {
+      maxAttempts,
+    });
+    const staleRoots: StaleRootEvent[] = [];
+    orchestrator.on('staleRoot', event => staleRoots.push(event));
+    const results = await orchestrator.attestAll(owner);
+    return {
+      results: results.map(r => [r.status, r.blacklistedShieldIds, r.attempts]),
+      staleRoots: staleRoots.map(e => e.attempt),
+    };
+  };
+
+  beforeEach(() => {
+    attestorSim = new AttestorSimulator();
+    attested = false;
+  });
+
+  it('attests a note none of whose origins is blacklisted', async () => {
+    expect(await attestAll(attestorSim)).toEqual({ results: [['attested', [], 1]], staleRoots: [] });
+  });
+
+  it('reports the origins blacklisted under the current root', async () => {
+    await attestorSim.addToBlacklist(token, 9n);
+    expect(await attestAll(attestorSim)).toEqual({ results: [['blacklisted', [9n], 0]], staleRoots: [] });
+  });
+
+  it('resubmits when the root goes stale after the proofs were fetched', async () => {
+    const proofs = racingProofs(() => attestorSim.addToBlacklist(token, 1234n), 'after');
+    expect(await attestAll(proofs)).toEqual({ results: [['attested', [], 2]], staleRoots: [1] });
+  });
+
+  it('refetches proofs that do not match the fetched root', async () => {
+    const proofs = racingProofs(() => attestorSim.addToBlacklist(token, 1234n), 'before');
+    expect(await attestAll(proofs)).toEqual({ results: [['attested', [], 1]], staleRoots: [] });
+  });
+
+  it('refetches proofs of an origin whose blacklisting was lifted meanwhile', async () => {
+    await attestorSim.addToBlacklist(token, 9n);
+    const proofs = racingProofs(() => attestorSim.removeFromBlacklist(token, 9n), 'after');
+    expect(await attestAll(proofs)).toEqual({ results: [['attested', [], 1]], staleRoots: [] });
+  });
+
+  it('gives up on a root that keeps changing', async () => {
+    let shieldId = 1000n;
+    const proofs = racingProofs(() => attestorSim.addToBlacklist(token, shieldId++), 'before', Infinity);
+    await expect(attestAll(proofs, 2)).rejects.toThrow(StaleBlacklistRootError);
+    expect(attested).toBe(false);
+  });
+});
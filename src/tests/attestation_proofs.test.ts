@@ -0,0 +1,63 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import {
+  BlacklistedShieldIdError,
+  assembleAttestationProofs,
+  buildAttestationProofs,
+} from '../attestor/attestation_proofs.js';
+import { BOUNDED_VEC_LEN, BoundedVec2, PartitionTable } from '../common_types/index.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+
+describe('Attestation proofs', () => {
+  const token = AztecAddress.random();
+  const partitionTable = new PartitionTable(
+    BoundedVec2.from([3n, 9n], BOUNDED_VEC_LEN),
+    BoundedVec2.empty(BOUNDED_VEC_LEN),
+  );
+
+  let attestorSim: AttestorSimulator;
+
+  beforeEach(async () => {
+    attestorSim = new AttestorSimulator();
+    await attestorSim.addToBlacklist(token, 69n);
+  });
+
+  it('pads the bundle to one proof per slot', async () => {
+    const root = await attestorSim.getRoot(token);
+    const proofs = await buildAttestationProofs(attestorSim, token, partitionTable, root);
+
+    const expected = await attestorSim.getSiblingPaths(token, [3n, 9n, 0n, 0n, 0n, 0n]);
+    expect(proofs).toEqual(expected.flat());
+    expect(proofs.length).toBe(32 * BOUNDED_VEC_LEN);
+  });
+
+  it('rejects a table with the wrong number of slots', async () => {
+    const root = await attestorSim.getRoot(token);
+    const short = new PartitionTable(new BoundedVec2(1, [3n]), BoundedVec2.empty(BOUNDED_VEC_LEN));
+    await expect(buildAttestationProofs(attestorSim, token, short, root)).rejects.toThrow('Partition table has 1/1');
+  });
+
+  it('rejects a missing sibling path', async () => {
+    const root = await attestorSim.getRoot(token);
+    const siblingPaths = await attestorSim.getSiblingPaths(token, [3n, 9n, 0n, 0n, 0n]);
+    expect(() => assembleAttestationProofs(partitionTable, root, siblingPaths)).toThrow('Expected 6 sibling paths');
+  });
+
+  it('rejects proofs against a stale root', async () => {
+    const staleRoot = await attestorSim.getRoot(token);
+    await attestorSim.addToBlacklist(token, 420n);
+    await expect(buildAttestationProofs(attestorSim, token, partitionTable, staleRoot)).rejects.toThrow(
+      'does not prove non-membership',
+    );
+  });
+
+  it('rejects a blacklisted shield id', async () => {
+    const root = await attestorSim.getRoot(token);
+    const tainted = PartitionTable.withSingleShieldId(69n);
+    await expect(buildAttestationProofs(attestorSim, token, tainted, root)).rejects.toThrow(BlacklistedShieldIdError);
+    await expect(buildAttestationProofs(attestorSim, token, tainted, root)).rejects.toThrow(
+      'Shield ids 69 are blacklisted under root',
+    );
+  });
+});
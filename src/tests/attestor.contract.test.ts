@@ -1,5 +1,11 @@
 import { AttestorContract } from '../artifacts/Attestor.js';
 import { AttestorSimulator } from './attestor_simulator.js';
+import { BlacklistIndexer } from '../attestor/blacklist_indexer.js';
+import { addManyToBlacklist, removeManyFromBlacklist } from '../attestor/blacklist_batch.js';
+import { checkTreeConfig, deployAttestor } from '../attestor/deploy.js';
+import { DEFAULT_TREE_CONFIG } from '../common_types/index.js';
+import { BlacklistAddedEvent, BlacklistRemovedEvent, EventStream } from '../events/index.js';
+import { AlreadyBlacklistedError, NotAdminError, withContractErrors } from '../errors.js';
 import {
   AccountWallet,
   AztecAddress,
@@ -44,18 +50,18 @@ describe('e2e_attestor_contract', () => {
     admin = accounts[0].address;
     token = accounts[1].address;
 
-    attestor = await AttestorContract.deploy(wallets[0], admin).send().deployed();
+    attestor = await deployAttestor(wallets[0], admin);
     logger(`Attestor deployed to ${attestor.address}`);
-    attestorSim = new AttestorSimulator();
+    attestorSim = new AttestorSimulator(admin);
 
     expect(await attestor.methods.admin().view()).toBe(admin.toBigInt());
 
     // console.log("empty root", await attestorSim.getRoot(token));
   }, 100_000);
 
-  // afterEach(async () => {
-  //   await attestorSim.check();
-  // }, TIMEOUT);
+  afterEach(async () => {
+    await attestorSim.check(attestor, pxe);
+  }, TIMEOUT);
 
   // describe("Access controlled functions", () => {
   //   it("Set admin", async () => {
@@ -76,6 +82,18 @@ describe('e2e_attestor_contract', () => {
   //   });
   // });
 
+  describe('Tree configuration', () => {
+    it('rejects a configuration the Attestor was not compiled with', async () => {
+      await expect(checkTreeConfig(attestor, DEFAULT_TREE_CONFIG)).resolves.toBeUndefined();
+      await expect(checkTreeConfig(attestor, { ...DEFAULT_TREE_CONFIG, depth: 16 })).rejects.toThrow(
+        'uses blacklist trees of depth 32, expected 16',
+      );
+      await expect(checkTreeConfig(attestor, { ...DEFAULT_TREE_CONFIG, hasher: 'poseidon2' })).rejects.toThrow(
+        'has an empty blacklist root of',
+      );
+    });
+  });
+
   describe('Blacklisting', () => {
     it('single', async () => {
       const shieldId = 0n;
@@ -110,6 +128,20 @@ describe('e2e_attestor_contract', () => {
       }
     });
 
+    it('batch', async () => {
+      const shieldIds = [2n, 3n, 1000n];
+
+      const receipt = await addManyToBlacklist(attestor, attestorSim, token, shieldIds);
+      expect(receipt.status).toBe(TxStatus.MINED);
+      await attestorSim.addManyToBlacklist(token, shieldIds);
+      expect(await attestor.methods.get_blacklist_root(token).view()).toEqual(await attestorSim.getRoot(token));
+
+      const removeReceipt = await removeManyFromBlacklist(attestor, attestorSim, token, [2n, 3n]);
+      expect(removeReceipt.status).toBe(TxStatus.MINED);
+      await attestorSim.removeManyFromBlacklist(token, [2n, 3n]);
+      expect(await attestor.methods.get_blacklist_root(token).view()).toEqual(await attestorSim.getRoot(token));
+    });
+
     describe('failure cases', () => {
       it('as non-admin', async () => {
         const shieldId = 69n;
@@ -117,7 +149,69 @@ describe('e2e_attestor_contract', () => {
         await expect(
           attestor.withWallet(wallets[1]).methods.add_to_blacklist(token, shieldId, proof).simulate(),
         ).rejects.toThrowError('caller is not admin');
+        await expect(attestorSim.addToBlacklist(token, shieldId, accounts[1].address)).rejects.toThrowError(
+          'caller is not admin',
+        );
       });
+
+      it('remove from a blacklist that was never updated', async () => {
+        // Storage still holds zero rather than `EMPTY_ROOT`, so no proof can match
+        const untouched = accounts[2].address;
+        const proof = await attestorSim.getSiblingPath(untouched, 1n);
+        await expect(attestor.methods.remove_from_blacklist(untouched, 1n, proof).simulate()).rejects.toThrowError(
+          "old_root is incorrect or doesn't exist",
+        );
+        await expect(attestorSim.removeFromBlacklist(untouched, 1n)).rejects.toThrowError(
+          "old_root is incorrect or doesn't exist",
+        );
+      });
+
+      it('decodes reverts into typed errors', async () => {
+        const caller = wallets[1].getAddress();
+        const proof = await attestorSim.getSiblingPath(token, 69n);
+        await expect(
+          withContractErrors(attestor.withWallet(wallets[1]).methods.add_to_blacklist(token, 69n, proof).simulate(), {
+            caller,
+          }),
+        ).rejects.toThrow(NotAdminError);
+
+        // 69 was blacklisted above
+        await expect(
+          withContractErrors(attestor.methods.add_to_blacklist(token, 69n, proof).simulate()),
+        ).rejects.toThrow(AlreadyBlacklistedError);
+      });
+    });
+  });
+
+  describe('Indexer', () => {
+    it('rebuilds the blacklist from logs', async () => {
+      const indexer = new BlacklistIndexer(pxe, attestor);
+      await indexer.sync();
+      await indexer.verify();
+
+      expect(indexer.listTokens()).toEqual([token]);
+      expect(indexer.getBlacklist(token)).toEqual([0n, 1n, 69n, 420n, 1000n]);
+      expect(await indexer.getRoot(token)).toEqual(await attestorSim.getRoot(token));
+      expect(await indexer.getSiblingPath(token, 7n)).toEqual(await attestorSim.getSiblingPath(token, 7n));
+    });
+  });
+
+  describe('Events', () => {
+    it('streams blacklist additions and removals', async () => {
+      const events: (BlacklistAddedEvent | BlacklistRemovedEvent)[] = [];
+      for await (const event of new EventStream(pxe, { attestor: attestor.address })) {
+        if (event.type !== 'UnshieldAttestations') {
+          events.push(event);
+        }
+      }
+      expect(events.map(({ token, shieldId }) => ({ token, shieldId }))).toEqual(attestorSim.getExpectedLogs());
+
+      // The last event of every shield id tells whether it is blacklisted now
+      const last = new Map(events.map(event => [`${event.token}:${event.shieldId}`, event]));
+      for (const { token, shieldId, type } of last.values()) {
+        const blacklisted = !(await attestorSim.isNotBlacklisted(token, shieldId));
+        expect(type).toEqual(blacklisted ? 'BlacklistAdded' : 'BlacklistRemoved');
+      }
     });
   });
 
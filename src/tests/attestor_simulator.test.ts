@@ -0,0 +1,50 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { parseBlacklistJson } from '../attestor/blacklist_import.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+import { ATTESTOR_EMPTY_ROOT } from './fixtures/fixtures.js';
+
+describe('AttestorSimulator', () => {
+  it('shares the blacklist of equal addresses', async () => {
+    const sim = new AttestorSimulator();
+    const token = AztecAddress.random();
+    await sim.addToBlacklist(token, 69n);
+
+    const sameToken = AztecAddress.fromString(token.toString());
+    expect(await sim.isNotBlacklisted(sameToken, 69n)).toBe(false);
+    expect(await sim.getRoot(sameToken)).toEqual(await sim.getRoot(token));
+    await sim.removeFromBlacklist(sameToken, 69n);
+    expect(await sim.getRoot(token)).toEqual(ATTESTOR_EMPTY_ROOT);
+  });
+
+  it('lists updated tokens with their stats', async () => {
+    const sim = new AttestorSimulator();
+    const [token1, token2, untouched] = [AztecAddress.random(), AztecAddress.random(), AztecAddress.random()];
+    await sim.addManyToBlacklist(token1, [1n, 2n]);
+    await sim.addToBlacklist(token2, 3n);
+    await sim.removeFromBlacklist(token1, 1n);
+    await sim.getSiblingPath(untouched, 1n);
+
+    expect(sim.listTokens()).toEqual([token1, token2]);
+    expect(await sim.getStats(token1)).toEqual({
+      token: token1,
+      blacklisted: 1,
+      root: await sim.getRoot(token1),
+      updates: 3,
+      lastUpdate: { shieldId: 1n, blacklisted: false },
+    });
+    expect(await sim.getStats(untouched)).toMatchObject({ blacklisted: 0, root: ATTESTOR_EMPTY_ROOT, updates: 0 });
+  });
+
+  it('exports every blacklist', async () => {
+    const sim = new AttestorSimulator();
+    const token = AztecAddress.random();
+    await sim.addManyToBlacklist(token, [420n, 7n]);
+
+    const [exported] = await sim.export();
+    expect(exported.token).toEqual(token.toString());
+    expect(BigInt(exported.root)).toEqual(await sim.getRoot(token));
+    expect(parseBlacklistJson(JSON.stringify(exported))).toEqual([7n, 420n]);
+  });
+});
@@ -1,41 +1,164 @@
-import { AztecAddress } from '@aztec/aztec.js';
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { AztecAddress, ExtendedUnencryptedL2Log, LogId, PXE } from '@aztec/aztec.js';
 import { Fr } from '@aztec/foundation/fields';
-import { newTree, SparseTree, Pedersen } from '@aztec/merkle-tree';
-import { openTmpStore } from '@aztec/kv-store/utils';
+import { SparseTree } from '@aztec/merkle-tree';
 import { type MemDown, default as memdown } from 'memdown';
 
+import { parseBlacklistLogs } from '../attestor/blacklist_indexer.js';
+import { BlacklistTreeStore } from '../attestor/blacklist_tree_store.js';
+import { checkTreeConfig } from '../attestor/deploy.js';
+
 const ABSENT = new Fr(0);
-const PRESENT = new Fr(1);
-const DEPTH = 32;
+// Shield ids that are checked to be absent on top of the removed ones
+const SAMPLED_ABSENT_SHIELD_IDS = 4;
 
 export const createMemDown = () => (memdown as any)() as MemDown<any, any>;
 
+/** A `(token, shield_id)` log pair the Attestor is expected to have emitted. */
+export type ExpectedBlacklistLog = {
+  token: AztecAddress;
+  shieldId: bigint;
+};
+
+/** Summary of the blacklist of one token. */
+export type TokenBlacklistStats = {
+  token: AztecAddress;
+  /** Number of currently blacklisted shield ids. */
+  blacklisted: number;
+  root: bigint;
+  /** Number of shield ids added or removed so far. */
+  updates: number;
+  /** The last shield id added or removed, if any. */
+  lastUpdate?: { shieldId: bigint; blacklisted: boolean };
+};
+
+/** The blacklist of one token, as written by `export()`. Also readable by `parseBlacklistJson`. */
+export type TokenBlacklistExport = {
+  token: string;
+  root: string;
+  shieldIds: string[];
+};
+
+type TokenBlacklist = {
+  token: AztecAddress;
+  tree: SparseTree;
+  // Value of `blacklists` in storage, zero until the first update
+  storedRoot: bigint;
+  // Shield ids that were blacklisted at some point, to sample leaves from
+  touched: Set<bigint>;
+  updates: number;
+  lastUpdate?: { shieldId: bigint; blacklisted: boolean };
+};
+
+/**
+ * Model of the Attestor contract. Updates mirror the contract's assertions, so an update the contract would revert
+ * throws with the same reason and leaves the model untouched.
+ */
 export class AttestorSimulator {
-  private blacklist: Map<AztecAddress, SparseTree> = new Map();
+  // Keyed by the string form of the token, since equal addresses are not necessarily the same object
+  private blacklists: Map<string, TokenBlacklist> = new Map();
+  private expectedLogs: ExpectedBlacklistLog[] = [];
 
-  constructor() {}
+  /** Updates are only checked against `admin` if it is given. */
+  constructor(private admin?: AztecAddress, private store: BlacklistTreeStore = BlacklistTreeStore.open()) {}
 
   async initializeTokenBlacklist(token: AztecAddress) {
-    const db = openTmpStore();
-    await this.blacklist.set(token, await newTree(SparseTree, db, new Pedersen(), 'attestor', DEPTH));
+    const key = token.toString();
+    if (!this.blacklists.has(key)) {
+      const tree = await this.store.getTree(token);
+      this.blacklists.set(key, { token, tree, storedRoot: 0n, touched: new Set(), updates: 0 });
+    }
+    return this.blacklists.get(key)!;
+  }
+
+  /** The shape of the blacklist trees, which the checked Attestor must have been compiled with. */
+  public getConfig() {
+    return this.store.getConfig();
+  }
+
+  /** Returns the tokens whose blacklist was updated at least once. */
+  public listTokens() {
+    return Array.from(this.blacklists.values())
+      .filter(blacklist => blacklist.storedRoot !== 0n)
+      .map(blacklist => blacklist.token);
   }
 
-  public async addToBlacklist(token: AztecAddress, shieldId: bigint) {
-    if (!this.blacklist.has(token)) {
-      await this.initializeTokenBlacklist(token);
+  public async getStats(token: AztecAddress): Promise<TokenBlacklistStats> {
+    const { updates, lastUpdate } = await this.initializeTokenBlacklist(token);
+    return {
+      token,
+      blacklisted: this.store.getBlacklist(token).length,
+      root: await this.getRoot(token),
+      updates,
+      lastUpdate,
+    };
+  }
+
+  /** Exports the blacklist of every token returned by `listTokens`. */
+  public async export(): Promise<TokenBlacklistExport[]> {
+    const exported = [];
+    for (const token of this.listTokens()) {
+      exported.push({
+        token: token.toString(),
+        root: new Fr(await this.getRoot(token)).toString(),
+        shieldIds: this.store.getBlacklist(token).map(shieldId => shieldId.toString()),
+      });
     }
-    await this.blacklist.get(token)!.updateLeaf(PRESENT.toBuffer(), shieldId);
+    return exported;
   }
 
-  public async removeFromBlacklist(token: AztecAddress, shieldId: bigint) {
-    await this.blacklist.get(token)?.updateLeaf(ABSENT.toBuffer(), shieldId);
+  public async addToBlacklist(token: AztecAddress, shieldId: bigint, caller?: AztecAddress) {
+    await this.addManyToBlacklist(token, [shieldId], caller);
   }
 
-  public async getSiblingPath(token: AztecAddress, shieldId: bigint) {
-    if (!this.blacklist.has(token)) {
-      await this.initializeTokenBlacklist(token);
+  public async removeFromBlacklist(token: AztecAddress, shieldId: bigint, caller?: AztecAddress) {
+    await this.removeManyFromBlacklist(token, [shieldId], caller);
+  }
+
+  public async addManyToBlacklist(token: AztecAddress, shieldIds: bigint[], caller?: AztecAddress) {
+    this.assertAdmin(caller);
+    this.assertDistinct(shieldIds, 'already exists');
+    for (const shieldId of shieldIds) {
+      if (!(await this.isNotBlacklisted(token, shieldId))) {
+        throw new Error('Assertion failed: old_root is incorrect or already exists');
+      }
     }
-    return (await this.blacklist.get(token)!.getSiblingPath(shieldId, true))!.toFields();
+
+    const blacklist = await this.initializeTokenBlacklist(token);
+    for (const shieldId of shieldIds) {
+      await this.store.addToBlacklist(token, shieldId);
+      blacklist.touched.add(shieldId);
+      this.recordUpdate(blacklist, shieldId, true);
+    }
+    blacklist.storedRoot = await this.getRoot(token);
+  }
+
+  public async removeManyFromBlacklist(token: AztecAddress, shieldIds: bigint[], caller?: AztecAddress) {
+    this.assertAdmin(caller);
+    this.assertDistinct(shieldIds, "doesn't exist");
+    // Unlike insertions, removals do not fall back to the empty root when nothing was stored yet
+    for (const shieldId of shieldIds) {
+      if (this.getStoredRoot(token) === 0n || (await this.isNotBlacklisted(token, shieldId))) {
+        throw new Error("Assertion failed: old_root is incorrect or doesn't exist");
+      }
+    }
+
+    const blacklist = await this.initializeTokenBlacklist(token);
+    for (const shieldId of shieldIds) {
+      await this.store.removeFromBlacklist(token, shieldId);
+      this.recordUpdate(blacklist, shieldId, false);
+    }
+    blacklist.storedRoot = await this.getRoot(token);
+  }
+
+  public async getChainedSiblingPaths(token: AztecAddress, shieldIds: bigint[], present: boolean) {
+    await this.initializeTokenBlacklist(token);
+    return await this.store.getChainedSiblingPaths(token, shieldIds, present);
+  }
+
+  public async getSiblingPath(token: AztecAddress, shieldId: bigint) {
+    const { tree } = await this.initializeTokenBlacklist(token);
+    return (await tree.getSiblingPath(shieldId, true))!.toFields();
   }
 
   public async getSiblingPaths(token: AztecAddress, shieldIds: bigint[]) {
@@ -46,22 +169,89 @@ export class AttestorSimulator {
     return proofs;
   }
 
+  /** The root returned by `get_blacklist_root`, which is `EMPTY_ROOT` for tokens that were never updated. */
   public async getRoot(token: AztecAddress) {
-    if (!this.blacklist.has(token)) {
-      await this.initializeTokenBlacklist(token);
-    }
-    const pedersen = new Pedersen();
-    return Fr.fromBuffer(await this.blacklist.get(token)!.getRoot(true))!.toBigInt();
+    const { tree } = await this.initializeTokenBlacklist(token);
+    return Fr.fromBuffer(await tree.getRoot(true))!.toBigInt();
+  }
+
+  /** The root in storage, which is zero for tokens that were never updated. */
+  public getStoredRoot(token: AztecAddress) {
+    return this.blacklists.get(token.toString())?.storedRoot ?? 0n;
   }
 
   public async isNotBlacklisted(token: AztecAddress, shieldId: bigint) {
-    if (!this.blacklist.has(token)) {
-      await this.initializeTokenBlacklist(token);
+    const { tree } = await this.initializeTokenBlacklist(token);
+    return Fr.fromBuffer((await tree.getLeafValue(shieldId, true))!).equals(ABSENT);
+  }
+
+  /** The log pairs every successful update should have emitted, in order. */
+  public getExpectedLogs() {
+    return [...this.expectedLogs];
+  }
+
+  /**
+   * Compares the model with the contract: the tree configuration, the admin, the root of every updated token, the
+   * leaves of every shield id that was ever blacklisted plus a few random ones, and the emitted logs.
+   */
+  public async check(attestor: AttestorContract, pxe: PXE) {
+    await checkTreeConfig(attestor, this.getConfig());
+    if (this.admin) {
+      expect(await attestor.methods.admin().view()).toEqual(this.admin.toBigInt());
+    }
+
+    for (const token of this.listTokens()) {
+      expect(await attestor.methods.get_blacklist_root(token).view()).toEqual(await this.getRoot(token));
+
+      const sampled = [...(await this.initializeTokenBlacklist(token)).touched];
+      for (let i = 0; i < SAMPLED_ABSENT_SHIELD_IDS; i++) {
+        sampled.push(Fr.random().toBigInt() >> 224n);
+      }
+      for (const shieldId of sampled) {
+        const proof = await this.getSiblingPath(token, shieldId);
+        expect(await attestor.methods.is_not_blacklisted(token, shieldId, proof).view()).toEqual(
+          await this.isNotBlacklisted(token, shieldId),
+        );
+      }
     }
-    return Fr.fromBuffer((await this.blacklist.get(token)!.getLeafValue(shieldId, true))!).equals(ABSENT);
+
+    const logs = parseBlacklistLogs(await fetchLogs(pxe, attestor.address));
+    expect(logs.map(({ token, shieldId }) => ({ token, shieldId }))).toEqual(this.expectedLogs);
+  }
+
+  private recordUpdate(blacklist: TokenBlacklist, shieldId: bigint, blacklisted: boolean) {
+    blacklist.updates += 1;
+    blacklist.lastUpdate = { shieldId, blacklisted };
+    this.expectedLogs.push({ token: blacklist.token, shieldId });
   }
 
-  // public requestAttestation(amount: bigint) {
-  //   this.totalSupply += amount;
-  // }
+  private assertAdmin(caller?: AztecAddress) {
+    if (this.admin && caller && !caller.equals(this.admin)) {
+      throw new Error('Assertion failed: caller is not admin');
+    }
+  }
+
+  // A repeated shield id fails against the root left by its first update
+  private assertDistinct(shieldIds: bigint[], reason: string) {
+    if (new Set(shieldIds).size !== shieldIds.length) {
+      throw new Error(`Assertion failed: old_root is incorrect or ${reason}`);
+    }
+  }
+}
+
+async function fetchLogs(pxe: PXE, contractAddress: AztecAddress) {
+  const logs: ExtendedUnencryptedL2Log[] = [];
+  let afterLog: LogId | undefined;
+  while (true) {
+    const { logs: page, maxLogsHit } = await pxe.getUnencryptedLogs(
+      afterLog ? { contractAddress, afterLog } : { contractAddress },
+    );
+    logs.push(...page);
+    if (page.length > 0) {
+      afterLog = page[page.length - 1].id;
+    }
+    if (!maxLogsHit) {
+      return logs;
+    }
+  }
 }
@@ -0,0 +1,200 @@
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { AttestorContract } from '../artifacts/Attestor.js';
+import {
+  BlacklistImporter,
+  diffBlacklist,
+  parseBlacklistCsv,
+  parseBlacklistJson,
+} from '../attestor/blacklist_import.js';
+import { BlacklistIndexer } from '../attestor/blacklist_indexer.js';
+import { BlacklistTreeStore } from '../attestor/blacklist_tree_store.js';
+import { BlacklistTreeConfig, DEFAULT_TREE_CONFIG } from '../common_types/index.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+import { FakePXE } from './fixtures/fake_pxe.js';
+
+describe('Blacklist import', () => {
+  describe('CSV', () => {
+    it('reads the first column and skips the header', () => {
+      const csv = 'shield_id,reason\n3,incident A\r\n"9",incident A\n\n0x0c,incident B\n3,duplicate\n';
+      expect(parseBlacklistCsv(csv)).toEqual([3n, 9n, 12n]);
+    });
+
+    it('rejects invalid ids after the header', () => {
+      expect(() => parseBlacklistCsv('shield_id\n3\nabc\n')).toThrow('Invalid shield id "abc" on line 3');
+    });
+
+    it('rejects ids that do not fit the tree, even on the first line', () => {
+      expect(() => parseBlacklistCsv(`${2n ** 32n}\n`)).toThrow(`Invalid shield id "${2n ** 32n}" on line 1`);
+      expect(parseBlacklistCsv('255\n', 8)).toEqual([255n]);
+      expect(() => parseBlacklistCsv('256\n', 8)).toThrow('expected an integer from 0 to 2^8 - 1');
+    });
+  });
+
+  describe('JSON', () => {
+    it('reads an array', () => {
+      expect(parseBlacklistJson('[3, "9", "0x0c"]')).toEqual([3n, 9n, 12n]);
+    });
+
+    it('reads an object', () => {
+      expect(parseBlacklistJson('{ "shieldIds": [1, 1, 2] }')).toEqual([1n, 2n]);
+      expect(parseBlacklistJson('{ "shield_ids": [5] }')).toEqual([5n]);
+    });
+
+    it('rejects invalid ids', () => {
+      expect(() => parseBlacklistJson('[1, -2]')).toThrow('Invalid shield id "-2" at index 1');
+      expect(() => parseBlacklistJson('{}')).toThrow('Expected a JSON array of shield ids');
+    });
+
+    it('rejects empty and out of range ids', () => {
+      expect(() => parseBlacklistJson('[1, ""]')).toThrow('Invalid shield id "" at index 1');
+      expect(() => parseBlacklistJson('[" "]')).toThrow('Invalid shield id " " at index 0');
+      expect(() => parseBlacklistJson(`["${2n ** 32n}"]`)).toThrow(`Invalid shield id "${2n ** 32n}" at index 0`);
+      expect(parseBlacklistJson('["0xff"]', 8)).toEqual([255n]);
+    });
+  });
+
+  it('diffs against the current blacklist', () => {
+    expect(diffBlacklist([1n, 3n, 69n], [3n, 9n, 12n])).toEqual({ adds: [9n, 12n], removes: [1n, 69n] });
+  });
+
+  describe('BlacklistImporter', () => {
+    const address = AztecAddress.random();
+    const token = AztecAddress.random();
+
+    let pxe: FakePXE;
+    let attestorSim: AttestorSimulator;
+    let dir: string;
+    let journalPath: string;
+    let config: BlacklistTreeConfig;
+    // Fails the update with this shield id, as if the run was interrupted before it landed
+    let failOn: bigint | undefined;
+    // Fails the update with this shield id once it is mined, as if the run was interrupted before recording it
+    let failAfter: bigint | undefined;
+    let sent: bigint[];
+
+    // Updates the simulator and mines the log pair the Attestor would emit
+    const update = (present: boolean) => (token: AztecAddress, shieldId: bigint) => ({
+      send: () => ({
+        wait: async () => {
+          if (shieldId === failOn) {
+            throw new Error('interrupted');
+          }
+          sent.push(shieldId);
+          await (present
+            ? attestorSim.addToBlacklist(token, shieldId)
+            : attestorSim.removeFromBlacklist(token, shieldId));
+          pxe.mine({ contract: address, fields: [token.toBigInt(), shieldId] });
+          if (shieldId === failAfter) {
+            throw new Error('interrupted');
+          }
+        },
+      }),
+    });
+    const attestor = () =>
+      ({
+        address,
+        methods: {
+          add_to_blacklist: update(true),
+          remove_from_blacklist: update(false),
+          get_blacklist_root: (token: AztecAddress) => ({ view: () => attestorSim.getRoot(token) }),
+        },
+      } as unknown as AttestorContract);
+    const importer = () =>
+      new BlacklistImporter(
+        attestor(),
+        new BlacklistIndexer(pxe as unknown as PXE, attestor(), BlacklistTreeStore.open(undefined, config)),
+      );
+
+    // Starts over from a chain on which 1 and 69 are blacklisted
+    const setUp = async (treeConfig: BlacklistTreeConfig) => {
+      config = treeConfig;
+      pxe = new FakePXE();
+      attestorSim = new AttestorSimulator(undefined, BlacklistTreeStore.open(undefined, config));
+      failOn = undefined;
+      failAfter = undefined;
+      sent = [];
+      await update(true)(token, 1n).send().wait();
+      await update(true)(token, 69n).send().wait();
+    };
+
+    beforeEach(async () => {
+      await setUp(DEFAULT_TREE_CONFIG);
+      dir = await mkdtemp(join(tmpdir(), 'blacklist-import-'));
+      journalPath = join(dir, 'journal.json');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const blacklistOf = async (shieldIds: bigint[]) => {
+      const blacklisted = [];
+      for (const shieldId of shieldIds) {
+        if (!(await attestorSim.isNotBlacklisted(token, shieldId))) {
+          blacklisted.push(shieldId);
+        }
+      }
+      return blacklisted;
+    };
+
+    it('plans against the on-chain blacklist', async () => {
+      const plan = await importer().plan(token, [3n, 69n, 420n]);
+      expect(plan).toMatchObject({ token: token.toString(), adds: ['3', '420'], removes: ['1'] });
+      expect(BigInt(plan.baseRoot)).toBe(await attestorSim.getRoot(token));
+
+      await expect(importer().plan(token, [2n ** 32n])).rejects.toThrow(`Invalid shield id ${2n ** 32n}`);
+    });
+
+    it('resumes from the journal', async () => {
+      const plan = await importer().plan(token, [3n, 69n, 420n]);
+      failOn = 420n;
+      await expect(importer().apply(plan, journalPath)).rejects.toThrow('interrupted');
+      expect(JSON.parse(await readFile(journalPath, 'utf-8')).applied).toBe(1);
+
+      failOn = undefined;
+      await importer().apply(plan, journalPath);
+      expect(sent.slice(2)).toEqual([3n, 420n, 1n]);
+      expect(await blacklistOf([1n, 3n, 69n, 420n])).toEqual([3n, 69n, 420n]);
+    });
+
+    it('resumes after an update that landed but was not recorded, under a Poseidon2 tree', async () => {
+      await setUp({ ...DEFAULT_TREE_CONFIG, hasher: 'poseidon2' });
+      const plan = await importer().plan(token, [3n, 69n, 420n]);
+      failAfter = 420n;
+      await expect(importer().apply(plan, journalPath)).rejects.toThrow('interrupted');
+      expect(JSON.parse(await readFile(journalPath, 'utf-8')).applied).toBe(1);
+
+      failAfter = undefined;
+      await importer().apply(plan, journalPath);
+      expect(sent.slice(2)).toEqual([3n, 420n, 1n]);
+      expect(await blacklistOf([1n, 3n, 69n, 420n])).toEqual([3n, 69n, 420n]);
+    });
+
+    it('refuses to run when the on-chain root is not the expected one', async () => {
+      const plan = await importer().plan(token, [3n]);
+      await update(true)(token, 7n).send().wait();
+
+      await expect(importer().apply(plan, journalPath)).rejects.toThrow('differs from the expected root');
+      expect(sent.slice(2)).toEqual([7n]);
+    });
+
+    it('refuses a journal left by another plan', async () => {
+      await importer().apply(await importer().plan(token, [1n, 69n, 3n]), journalPath);
+
+      // The journal's root is the root this plan starts from, but none of its updates were applied
+      const plan = await importer().plan(token, [5n]);
+      await expect(importer().apply(plan, journalPath)).rejects.toThrow('belongs to another plan');
+      expect(await blacklistOf([5n])).toEqual([]);
+
+      await rm(journalPath);
+      await importer().apply(plan, journalPath);
+      expect(await blacklistOf([1n, 3n, 5n, 69n])).toEqual([5n]);
+    });
+  });
+});
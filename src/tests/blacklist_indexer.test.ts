@@ -0,0 +1,63 @@
+import { AztecAddress, LogId, PXE } from '@aztec/aztec.js';
+import { openTmpStore } from '@aztec/kv-store/utils';
+import { describe, expect, it } from '@jest/globals';
+
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { BlacklistIndexer } from '../attestor/blacklist_indexer.js';
+import { BlacklistTreeStore } from '../attestor/blacklist_tree_store.js';
+import { FakePXE } from './fixtures/fake_pxe.js';
+
+describe('BlacklistIndexer', () => {
+  const attestor = AztecAddress.random();
+  const token = AztecAddress.random();
+
+  const blacklist = (...shieldIds: bigint[]) => ({
+    contract: attestor,
+    fields: shieldIds.flatMap(shieldId => [token.toBigInt(), shieldId]),
+  });
+  const indexer = (pxe: FakePXE, store: BlacklistTreeStore) =>
+    new BlacklistIndexer(pxe as unknown as PXE, { address: attestor } as AttestorContract, store);
+
+  const setup = () => {
+    const pxe = new FakePXE();
+    pxe.mine(blacklist(1n, 2n, 3n));
+    pxe.mine(blacklist(2n));
+    pxe.mine(blacklist(4n));
+    return pxe;
+  };
+
+  it('resumes an interrupted sync after the last applied update', async () => {
+    const pxe = setup();
+    const db = openTmpStore();
+    const store = new BlacklistTreeStore(db);
+
+    // Crashes after applying the first two additions of block 1
+    let updates = 0;
+    const addToBlacklist = store.addToBlacklist.bind(store);
+    store.addToBlacklist = (token: AztecAddress, shieldId: bigint, logId?: LogId) =>
+      ++updates > 2 ? Promise.reject(new Error('crash')) : addToBlacklist(token, shieldId, logId);
+    await expect(indexer(pxe, store).sync()).rejects.toThrow('crash');
+    expect(store.getBlacklist(token)).toEqual([1n, 2n]);
+    expect(store.getSyncedToBlock()).toBe(0);
+
+    const reopened = new BlacklistTreeStore(db);
+    await indexer(pxe, reopened).sync();
+
+    const expected = BlacklistTreeStore.open();
+    await indexer(pxe, expected).sync();
+    expect(reopened.getBlacklist(token)).toEqual([1n, 3n, 4n]);
+    expect(await reopened.getRoot(token)).toEqual(await expected.getRoot(token));
+    expect(reopened.getSyncedToBlock()).toBe(3);
+  });
+
+  it('only applies new blocks on the next sync', async () => {
+    const pxe = setup();
+    const store = BlacklistTreeStore.open();
+    await indexer(pxe, store).sync(2);
+    expect(store.getBlacklist(token)).toEqual([1n, 3n]);
+
+    pxe.mine(blacklist(1n));
+    await indexer(pxe, store).sync();
+    expect(store.getBlacklist(token)).toEqual([3n, 4n]);
+  });
+});
@@ -0,0 +1,87 @@
+import { AztecAddress, LogId } from '@aztec/aztec.js';
+import { openTmpStore } from '@aztec/kv-store/utils';
+import { describe, expect, it } from '@jest/globals';
+
+import { BlacklistTreeStore } from '../attestor/blacklist_tree_store.js';
+import { smt } from '../common_types/index.js';
+
+describe('BlacklistTreeStore', () => {
+  const token = AztecAddress.random();
+
+  it('reloads trees from the underlying kv-store', async () => {
+    const db = openTmpStore();
+    const store = new BlacklistTreeStore(db);
+    await store.addToBlacklist(token, 1n);
+    await store.addToBlacklist(token, 69n);
+    await store.setSyncedToBlock(7);
+
+    const reopened = new BlacklistTreeStore(db);
+    expect(reopened.listTokens()).toEqual([token]);
+    expect(reopened.getBlacklist(token)).toEqual([1n, 69n]);
+    expect(reopened.getSyncedToBlock()).toBe(7);
+    expect(await reopened.getRoot(token)).toEqual(await store.getRoot(token));
+    expect(await reopened.isNotBlacklisted(token, 69n)).toBe(false);
+  });
+
+  it('recovers a leaf update interrupted before the tree committed it', async () => {
+    const db = openTmpStore();
+    const store = new BlacklistTreeStore(db);
+    await store.addToBlacklist(token, 1n, new LogId(3, 0, 1));
+
+    const tree = await store.getTree(token);
+    tree.commit = () => Promise.reject(new Error('crash'));
+    await expect(store.addToBlacklist(token, 2n, new LogId(4, 0, 1))).rejects.toThrow('crash');
+
+    const expected = BlacklistTreeStore.open();
+    await expected.addToBlacklist(token, 1n);
+    await expected.addToBlacklist(token, 2n);
+
+    const reopened = new BlacklistTreeStore(db);
+    expect(reopened.getBlacklist(token)).toEqual([1n, 2n]);
+    expect(reopened.getSyncedToLog()).toEqual(new LogId(4, 0, 1));
+    expect(await reopened.isNotBlacklisted(token, 2n)).toBe(false);
+    expect(await reopened.getRoot(token)).toEqual(await expected.getRoot(token));
+  });
+
+  it('restores a snapshot', async () => {
+    const store = BlacklistTreeStore.open();
+    const emptyRoot = await store.snapshot(token);
+
+    await store.addToBlacklist(token, 1n);
+    await store.addToBlacklist(token, 420n);
+    const root = await store.snapshot(token);
+    expect(root).not.toEqual(emptyRoot);
+
+    await store.removeFromBlacklist(token, 1n);
+    await store.addToBlacklist(token, 3n);
+
+    await store.restore(token, root);
+    expect(store.getBlacklist(token)).toEqual([1n, 420n]);
+
+    await store.restore(token, emptyRoot);
+    expect(store.getBlacklist(token)).toEqual([]);
+    expect(await store.getRoot(token)).toEqual(emptyRoot);
+  });
+
+  it('refuses to restore an unknown root', async () => {
+    const store = BlacklistTreeStore.open();
+    await expect(store.restore(token, 1n)).rejects.toThrow('No snapshot');
+  });
+
+  it('chains sibling paths without touching the tree', async () => {
+    const store = BlacklistTreeStore.open();
+    await store.addToBlacklist(token, 5n);
+    const initialRoot = await store.getRoot(token);
+
+    const shieldIds = [1n, 2n, 3n];
+    const siblingPaths = await store.getChainedSiblingPaths(token, shieldIds, true);
+    expect(await store.getRoot(token)).toEqual(initialRoot);
+
+    let root = initialRoot;
+    shieldIds.forEach((shieldId, i) => (root = smt.insert(shieldId, root, siblingPaths[i])));
+    for (const shieldId of shieldIds) {
+      await store.addToBlacklist(token, shieldId);
+    }
+    expect(await store.getRoot(token)).toEqual(root);
+  });
+});
@@ -0,0 +1,59 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  AlreadyBlacklistedError,
+  ContractError,
+  InsufficientBalanceError,
+  NotAdminError,
+  NotBlacklistedError,
+  StaleBlacklistRootError,
+  decodeContractError,
+  withContractErrors,
+} from '../errors.js';
+import { U128_UNDERFLOW_ERROR } from './fixtures/fixtures.js';
+
+describe('decodeContractError', () => {
+  it('maps assertion messages to typed errors', () => {
+    const caller = AztecAddress.random();
+    const error = decodeContractError(new Error('Assertion failed: caller is not admin'), { caller });
+    expect(error).toBeInstanceOf(NotAdminError);
+    expect(error).toBeInstanceOf(ContractError);
+    expect(error).toMatchObject({ name: 'NotAdminError', reason: 'caller is not admin', context: { caller } });
+
+    expect(decodeContractError(new Error(U128_UNDERFLOW_ERROR))).toBeInstanceOf(InsufficientBalanceError);
+    expect(decodeContractError(new Error('Assertion failed: incorrect blacklist root'))).toBeInstanceOf(
+      StaleBlacklistRootError,
+    );
+  });
+
+  it('tells the two blacklist update failures apart', () => {
+    expect(
+      decodeContractError(new Error("Assertion failed: old_root is incorrect or already exists 'x'")),
+    ).toBeInstanceOf(AlreadyBlacklistedError);
+    expect(
+      decodeContractError(new Error("Assertion failed: old_root is incorrect or doesn't exist 'x'")),
+    ).toBeInstanceOf(NotBlacklistedError);
+  });
+
+  it('keeps the original failure', () => {
+    const cause = new Error('Assertion failed: caller is not minter');
+    const error = decodeContractError(cause) as ContractError;
+    expect(error.cause).toBe(cause);
+    expect(error.message).toBe(cause.message);
+    expect(decodeContractError(error)).toBe(error);
+  });
+
+  it('passes unknown failures through', () => {
+    const err = new Error('Timeout awaiting isMined');
+    expect(decodeContractError(err)).toBe(err);
+    expect(decodeContractError('not an error')).toBe('not an error');
+  });
+
+  it('decodes rejected promises', async () => {
+    await expect(withContractErrors(Promise.reject(new Error('invalid nonce')))).rejects.toMatchObject({
+      name: 'InvalidNonceError',
+    });
+    await expect(withContractErrors(Promise.resolve(1))).resolves.toBe(1);
+  });
+});
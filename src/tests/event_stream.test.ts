@@ -0,0 +1,134 @@
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { ContractEvent, EventStream, EventStreamOptions } from '../events/index.js';
+import { FakePXE } from './fixtures/fake_pxe.js';
+
+describe('EventStream', () => {
+  const attestor = AztecAddress.random();
+  const token = AztecAddress.random();
+  const other = AztecAddress.random();
+  const [alice, bob] = [AztecAddress.random(), AztecAddress.random()];
+
+  const blacklist = (...shieldIds: bigint[]) => ({
+    contract: attestor,
+    fields: shieldIds.flatMap(shieldId => [token.toBigInt(), shieldId]),
+  });
+  const unshield = (...attestors: AztecAddress[]) => ({
+    contract: token,
+    fields: [...attestors.map(a => a.toBigInt()), alice.toBigInt(), 10n, BigInt(attestors.length)],
+  });
+
+  const summarize = (event: ContractEvent) =>
+    event.type === 'UnshieldAttestations'
+      ? `${event.type}(${event.attestors.map(a => a.toString()).join(',')})@${event.blockNumber}`
+      : `${event.type}(${event.shieldId})@${event.blockNumber}`;
+
+  const collect = async (pxe: FakePXE, options: EventStreamOptions) => {
+    const events: ContractEvent[] = [];
+    for await (const event of new EventStream(pxe as unknown as PXE, options)) {
+      events.push(event);
+    }
+    return events.map(summarize);
+  };
+
+  const setup = () => {
+    const pxe = new FakePXE();
+    pxe.mine(blacklist(1n, 2n, 3n), unshield(alice, bob));
+    pxe.mine(blacklist(2n), { contract: other, fields: [42n] });
+    pxe.mine(blacklist(1n), unshield(alice));
+    return pxe;
+  };
+
+  it('decodes additions, removals and unshield attestations in order', async () => {
+    expect(await collect(setup(), { attestor, tokens: [token] })).toEqual([
+      'BlacklistAdded(1)@1',
+      'BlacklistAdded(2)@1',
+      'BlacklistAdded(3)@1',
+      `UnshieldAttestations(${alice},${bob})@1`,
+      'BlacklistRemoved(2)@2',
+      'BlacklistRemoved(1)@3',
+      `UnshieldAttestations(${alice})@3`,
+    ]);
+  });
+
+  it('filters by type and block range', async () => {
+    const pxe = setup();
+    expect(await collect(pxe, { attestor, tokens: [token], types: ['BlacklistRemoved'] })).toEqual([
+      'BlacklistRemoved(2)@2',
+      'BlacklistRemoved(1)@3',
+    ]);
+    expect(await collect(pxe, { attestor, fromBlock: 2, toBlock: 2 })).toEqual(['BlacklistAdded(2)@2']);
+    expect(
+      await collect(pxe, { attestor, fromBlock: 2, toBlock: 2, isBlacklisted: (_, shieldId) => shieldId === 2n }),
+    ).toEqual(['BlacklistRemoved(2)@2']);
+  });
+
+  it('resumes after a cursor', async () => {
+    const pxe = setup();
+    const stream = new EventStream(pxe as unknown as PXE, { attestor, tokens: [token] });
+    const seen = [];
+    for await (const event of stream) {
+      seen.push(summarize(event));
+      if (seen.length === 2) {
+        break;
+      }
+    }
+
+    const blacklisted = new Set([1n, 2n]);
+    const rest = await collect(pxe, {
+      attestor,
+      tokens: [token],
+      afterLog: stream.getCursor(),
+      isBlacklisted: (_, shieldId) => blacklisted.has(shieldId),
+    });
+    expect([...seen, ...rest]).toEqual(await collect(pxe, { attestor, tokens: [token] }));
+  });
+
+  it('follows new blocks until aborted', async () => {
+    const pxe = setup();
+    const controller = new AbortController();
+    const stream = new EventStream(pxe as unknown as PXE, {
+      attestor,
+      types: ['BlacklistAdded'],
+      follow: true,
+      pollIntervalMs: 1,
+      signal: controller.signal,
+    });
+
+    const seen = [];
+    for await (const event of stream) {
+      seen.push(summarize(event));
+      if (seen.length === 3) {
+        pxe.mine(blacklist(7n));
+      } else if (seen.length === 4) {
+        controller.abort();
+      }
+    }
+    expect(seen).toEqual(['BlacklistAdded(1)@1', 'BlacklistAdded(2)@1', 'BlacklistAdded(3)@1', 'BlacklistAdded(7)@4']);
+  });
+
+  it('decodes several unshields of one transaction', async () => {
+    const pxe = new FakePXE();
+    const first = unshield();
+    const second = unshield(bob);
+    pxe.mine({ contract: token, fields: [...first.fields, ...second.fields] });
+    expect(await collect(pxe, { tokens: [token] })).toEqual([
+      'UnshieldAttestations()@1',
+      `UnshieldAttestations(${bob})@1`,
+    ]);
+
+    pxe.mine({ contract: token, fields: first.fields.slice(0, 2) });
+    await expect(collect(pxe, { tokens: [token], fromBlock: 2 })).rejects.toThrow('Truncated unshield logs in tx 2:0');
+
+    // Tokens deployed before the recipient, amount and count were appended logged the attestations alone
+    pxe.mine({ contract: token, fields: [bob.toBigInt()] });
+    await expect(collect(pxe, { tokens: [token], fromBlock: 3 })).rejects.toThrow('Truncated unshield logs in tx 3:0');
+  });
+
+  it('rejects unpaired blacklist logs', async () => {
+    const pxe = new FakePXE();
+    pxe.mine({ contract: attestor, fields: [token.toBigInt()] });
+    await expect(collect(pxe, { attestor })).rejects.toThrow('Unpaired blacklist log in tx 1:0');
+  });
+});
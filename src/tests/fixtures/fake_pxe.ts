@@ -0,0 +1,43 @@
+import { AztecAddress, ExtendedUnencryptedL2Log, Fr, LogFilter, LogId } from '@aztec/aztec.js';
+
+const PAGE_SIZE = 3;
+
+/** A PXE serving unencrypted logs in pages of `PAGE_SIZE`, as far as `EventStream` needs one. */
+export class FakePXE {
+  public blockNumber = 0;
+  private logs: ExtendedUnencryptedL2Log[] = [];
+
+  /** Mines a block with one transaction per entry, each emitting the given fields from the given contract. */
+  public mine(...txs: { contract: AztecAddress; fields: bigint[] }[]) {
+    this.blockNumber++;
+    txs.forEach(({ contract, fields }, txIndex) =>
+      fields.forEach((field, logIndex) =>
+        this.logs.push({
+          id: new LogId(this.blockNumber, txIndex, logIndex),
+          log: { contractAddress: contract, data: new Fr(field).toBuffer() },
+        } as unknown as ExtendedUnencryptedL2Log),
+      ),
+    );
+  }
+
+  public getBlockNumber() {
+    return Promise.resolve(this.blockNumber);
+  }
+
+  public getUnencryptedLogs(filter: LogFilter) {
+    const position = (id: LogId) => [id.blockNumber, id.txIndex, id.logIndex];
+    const after = (a: LogId, b: LogId) => {
+      const [pa, pb] = [position(a), position(b)];
+      const i = pa.findIndex((value, j) => value !== pb[j]);
+      return i !== -1 && pa[i] > pb[i];
+    };
+    const matching = this.logs.filter(
+      ({ id, log }) =>
+        (!filter.afterLog || after(id, filter.afterLog)) &&
+        (filter.afterLog || id.blockNumber >= (filter.fromBlock ?? 1)) &&
+        (filter.toBlock === undefined || id.blockNumber < filter.toBlock) &&
+        (!filter.contractAddress || log.contractAddress.equals(filter.contractAddress)),
+    );
+    return Promise.resolve({ logs: matching.slice(0, PAGE_SIZE), maxLogsHit: matching.length > PAGE_SIZE });
+  }
+}
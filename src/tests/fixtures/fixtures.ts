@@ -7,3 +7,10 @@ export const U128_UNDERFLOW_ERROR = "Assertion failed: attempt to subtract with
 export const U128_OVERFLOW_ERROR = "Assertion failed: attempt to add with overflow 'hi == high'";
 export const BITSIZE_TOO_BIG_ERROR =
   "Assertion failed: call to assert_max_bit_size 'self.__assert_max_bit_size(bit_size)'";
+
+/// Sparse merkle tree vectors from `common_types/src/smt.nr`
+export const SMT_DEPTH1_EMPTY_ROOT = 0x27b1d0839a5b23baf12a8d195b18ac288fcf401afb2f70b8a4b529ede5fa9fedn;
+export const SMT_DEPTH1_LEFT_ROOT = 0x2e8c6083fb43bef89fa5ee406f0bb9bd3d43780e02991ec42623d35d5657a808n;
+export const SMT_DEPTH1_RIGHT_ROOT = 0xd98561fb02ca04d00801dfdc118b2a24cea0351963587712a28d368041370e1n;
+/// `EMPTY_ROOT` of the Attestor contract, the root of an empty blacklist of depth 32
+export const ATTESTOR_EMPTY_ROOT = 0x16642d9ccd8346c403aa4c3fa451178b22534a27035cdaa6ec34ae53b29c50cbn;
@@ -0,0 +1,57 @@
+import { AccountWallet, DebugLogger, PXE, createDebugLogger } from '@aztec/aztec.js';
+import { getInitialTestAccountsWallets } from '@aztec/accounts/testing';
+import { beforeAll, describe, expect, it, jest } from '@jest/globals';
+
+import { setupEnvironment } from '../environment/index.js';
+import { Operation, Random, formatOperations, generateOperations, shrink } from './fuzz_harness.js';
+import { FuzzRunner } from './fuzz_runner.js';
+
+// Every operation is a transaction, so histories are short by default. Set FUZZ_SEED to replay a failure.
+const SEEDS = process.env.FUZZ_SEED ? [Number(process.env.FUZZ_SEED)] : [1, 2, 3];
+const RUNS = Number(process.env.FUZZ_RUNS ?? SEEDS.length);
+const LENGTH = Number(process.env.FUZZ_LENGTH ?? 8);
+const TIMEOUT = 60_000 * LENGTH;
+
+describe('Random operations against the simulators', () => {
+  jest.setTimeout(TIMEOUT);
+
+  let logger: DebugLogger;
+  let pxe: PXE;
+  let wallets: AccountWallet[];
+
+  beforeAll(async () => {
+    logger = createDebugLogger('box:fuzz_contract_test');
+    pxe = await setupEnvironment();
+    wallets = await getInitialTestAccountsWallets(pxe);
+  }, 100_000);
+
+  for (let run = 0; run < RUNS; run++) {
+    const seed = SEEDS[run % SEEDS.length] + Math.floor(run / SEEDS.length) * 1000;
+
+    it(
+      `agrees on a random history (seed ${seed})`,
+      async () => {
+        const runner = new FuzzRunner(pxe, wallets, logger);
+        const operations = generateOperations(new Random(seed), { accounts: wallets.length, length: LENGTH });
+        logger(`Seed ${seed}:\n${formatOperations(operations)}`);
+
+        const failure = await runner.run(operations);
+        if (failure) {
+          // Only shrink what led up to the failing step
+          const shrunk = await shrink(
+            operations.slice(0, failure.step + 1),
+            async (candidate: Operation[]) => (await runner.run(candidate)) !== undefined,
+            { maxRuns: 20 },
+          );
+          throw new Error(
+            `Seed ${seed} failed at step ${failure.step}: ${failure.error.message}\n` +
+              `Shrunk history:\n${formatOperations(shrunk)}`,
+          );
+        }
+        expect(failure).toBeUndefined();
+      },
+      // Shrinking replays the history up to 20 more times
+      TIMEOUT * 21,
+    );
+  }
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { Operation, Random, formatOperations, generateOperations, shrink } from './fuzz_harness.js';
+
+describe('fuzz harness', () => {
+  it('replays the same history from the same seed', () => {
+    const options = { accounts: 3, length: 50 };
+    expect(generateOperations(new Random(42), options)).toEqual(generateOperations(new Random(42), options));
+    expect(generateOperations(new Random(42), options)).not.toEqual(generateOperations(new Random(43), options));
+  });
+
+  it('generates operations within the given bounds', () => {
+    const operations = generateOperations(new Random(7), { accounts: 2, length: 200, maxAmount: 10n });
+    expect(operations).toHaveLength(200);
+
+    let shields = 0n;
+    for (const operation of operations) {
+      for (const account of accountsOf(operation)) {
+        expect(account).toBeLessThan(2);
+      }
+      if ('amount' in operation) {
+        expect(operation.amount).toBeGreaterThanOrEqual(1n);
+        expect(operation.amount).toBeLessThanOrEqual(10n);
+      }
+      if ('shieldId' in operation) {
+        expect(operation.shieldId).toBeLessThanOrEqual(shields);
+      }
+      if (operation.kind === 'mintPrivate' || operation.kind === 'shield') {
+        shields += 1n;
+      }
+    }
+  });
+
+  it('shrinks a failing history to the operations that make it fail', async () => {
+    const operations = generateOperations(new Random(1), { accounts: 3, length: 40 });
+    operations.splice(17, 0, { kind: 'transfer', from: 0, to: 1, amount: 900n });
+    // Fails as soon as there is a large transfer
+    const fails = async (candidate: Operation[]) =>
+      candidate.some(operation => operation.kind === 'transfer' && operation.amount >= 500n);
+
+    const shrunk = await shrink(operations, fails, { maxRuns: 1000 });
+    expect(shrunk).toHaveLength(1);
+    expect(shrunk[0]).toMatchObject({ kind: 'transfer' });
+    expect((shrunk[0] as { amount: bigint }).amount).toBeGreaterThanOrEqual(500n);
+    expect((shrunk[0] as { amount: bigint }).amount).toBeLessThanOrEqual(1000n);
+  });
+
+  it('stops shrinking after maxRuns', async () => {
+    const operations = generateOperations(new Random(3), { accounts: 3, length: 20 });
+    let runs = 0;
+    // Never fails, so that every candidate is tried
+    const fails = async () => {
+      runs++;
+      return false;
+    };
+
+    expect(await shrink(operations, fails, { maxRuns: 5 })).toEqual(operations);
+    expect(runs).toBe(5);
+  });
+
+  it('formats one operation per line', () => {
+    expect(
+      formatOperations([
+        { kind: 'mintPublic', to: 0, amount: 5n },
+        { kind: 'blacklist', shieldId: 2n },
+      ]),
+    ).toEqual('0: mintPublic(to=0, amount=5)\n1: blacklist(shieldId=2)');
+  });
+});
+
+/** The indices of the accounts an operation acts on. */
+function accountsOf(operation: Operation) {
+  const accounts: number[] = [];
+  if ('to' in operation) {
+    accounts.push(operation.to);
+  }
+  if ('from' in operation) {
+    accounts.push(operation.from);
+  }
+  if ('owner' in operation) {
+    accounts.push(operation.owner);
+  }
+  return accounts;
+}
@@ -0,0 +1,198 @@
+/** A step of a random history. Accounts are indices into the test accounts. */
+export type Operation =
+  | { kind: 'mintPublic'; to: number; amount: bigint }
+  | { kind: 'mintPrivate'; to: number; amount: bigint }
+  | { kind: 'shield'; from: number; amount: bigint }
+  | { kind: 'transfer'; from: number; to: number; amount: bigint }
+  | { kind: 'unshield'; from: number; to: number; amount: bigint }
+  | { kind: 'burn'; from: number; amount: bigint }
+  | { kind: 'blacklist'; shieldId: bigint }
+  | { kind: 'unblacklist'; shieldId: bigint }
+  | { kind: 'attest'; owner: number };
+
+export type OperationKind = Operation['kind'];
+
+/** How often each kind of operation is picked, relative to the others. */
+export const DEFAULT_WEIGHTS: Record<OperationKind, number> = {
+  mintPublic: 2,
+  mintPrivate: 2,
+  shield: 2,
+  transfer: 4,
+  unshield: 1,
+  burn: 1,
+  blacklist: 1,
+  unblacklist: 1,
+  attest: 2,
+};
+
+export type GeneratorOptions = {
+  accounts: number;
+  length: number;
+  /** Amounts are picked in `[1, maxAmount]`. */
+  maxAmount?: bigint;
+  weights?: Record<OperationKind, number>;
+};
+
+/** Small seeded PRNG (mulberry32), so that a failing history can be replayed from its seed. */
+export class Random {
+  private state: number;
+
+  constructor(public readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Returns a float in `[0, 1)`. */
+  public next() {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns an integer in `[0, max)`. */
+  public int(max: number) {
+    return Math.floor(this.next() * max);
+  }
+
+  /** Returns a bigint in `[min, max]`, for ranges that fit in a double. */
+  public bigint(min: bigint, max: bigint) {
+    return min + BigInt(this.int(Number(max - min) + 1));
+  }
+
+  public pick<T>(items: T[]) {
+    return items[this.int(items.length)];
+  }
+
+  public weighted<K extends string>(weights: Record<K, number>) {
+    const entries = Object.entries(weights) as [K, number][];
+    let roll = this.next() * entries.reduce((sum, [, weight]) => sum + weight, 0);
+    for (const [key, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) {
+        return key;
+      }
+    }
+    return entries[entries.length - 1][0];
+  }
+}
+
+/**
+ * Generates a random history. Operations are not filtered by what the contracts would accept: reverting steps are
+ * expected to revert on both the contracts and the simulators.
+ */
+export function generateOperations(
+  random: Random,
+  { accounts, length, maxAmount = 1000n, weights = DEFAULT_WEIGHTS }: GeneratorOptions,
+): Operation[] {
+  const operations: Operation[] = [];
+  // Shield ids handed out so far, at most one per operation
+  let shields = 0n;
+  const account = () => random.int(accounts);
+  const amount = () => random.bigint(1n, maxAmount);
+  // Mostly shield ids that exist, sometimes the next one
+  const shieldId = () => random.bigint(0n, shields);
+
+  for (let i = 0; i < length; i++) {
+    const kind = random.weighted(weights);
+    switch (kind) {
+      case 'mintPublic':
+      case 'mintPrivate':
+        operations.push({ kind, to: account(), amount: amount() });
+        break;
+      case 'shield':
+        operations.push({ kind, from: account(), amount: amount() });
+        break;
+      case 'transfer':
+      case 'unshield':
+        operations.push({ kind, from: account(), to: account(), amount: amount() });
+        break;
+      case 'burn':
+        operations.push({ kind, from: account(), amount: amount() });
+        break;
+      case 'blacklist':
+      case 'unblacklist':
+        operations.push({ kind, shieldId: shieldId() });
+        break;
+      case 'attest':
+        operations.push({ kind, owner: account() });
+        break;
+    }
+    if (kind === 'mintPrivate' || kind === 'shield') {
+      shields += 1n;
+    }
+  }
+  return operations;
+}
+
+/** Simpler variants of an operation: smaller amounts and shield ids. */
+export function simplifyOperation(operation: Operation): Operation[] {
+  const candidates: Operation[] = [];
+  if ('amount' in operation && operation.amount > 1n) {
+    candidates.push({ ...operation, amount: 1n }, { ...operation, amount: operation.amount / 2n });
+  }
+  if ('shieldId' in operation && operation.shieldId > 0n) {
+    candidates.push({ ...operation, shieldId: 0n }, { ...operation, shieldId: operation.shieldId - 1n });
+  }
+  return candidates;
+}
+
+export type ShrinkOptions = {
+  /** Upper bound on the number of times `fails` is called, since every call replays a whole history. */
+  maxRuns?: number;
+  simplify?: (operation: Operation) => Operation[];
+};
+
+/**
+ * Shrinks a failing history to a smaller one that still fails: first by dropping chunks of operations, halving the
+ * chunk size down to single operations, then by simplifying the operations that are left.
+ */
+export async function shrink(
+  operations: Operation[],
+  fails: (operations: Operation[]) => Promise<boolean>,
+  { maxRuns = 100, simplify = simplifyOperation }: ShrinkOptions = {},
+) {
+  let runs = 0;
+  const stillFails = async (candidate: Operation[]) => runs++ < maxRuns && (await fails(candidate));
+
+  let current = operations;
+  let progress = true;
+  while (progress && runs < maxRuns) {
+    progress = false;
+
+    for (let size = Math.ceil(current.length / 2); size >= 1; size = Math.floor(size / 2)) {
+      for (let start = 0; start < current.length; ) {
+        const candidate = [...current.slice(0, start), ...current.slice(start + size)];
+        if (candidate.length < current.length && (await stillFails(candidate))) {
+          current = candidate;
+          progress = true;
+        } else {
+          start += size;
+        }
+      }
+    }
+
+    for (let i = 0; i < current.length; i++) {
+      for (const simpler of simplify(current[i])) {
+        const candidate = [...current.slice(0, i), simpler, ...current.slice(i + 1)];
+        if (await stillFails(candidate)) {
+          current = candidate;
+          progress = true;
+          break;
+        }
+      }
+    }
+  }
+  return current;
+}
+
+/** Formats a history one operation per line, for failure messages. */
+export function formatOperations(operations: Operation[]) {
+  return operations
+    .map((operation, i) => {
+      const { kind, ...args } = operation;
+      const formatted = Object.entries(args).map(([key, value]) => `${key}=${value}`);
+      return `${i}: ${kind}(${formatted.join(', ')})`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,209 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { TokenContract } from '../artifacts/Token.js';
+import { AccountWallet, DebugLogger, Fr, PXE, TxHash, computeMessageSecretHash } from '@aztec/aztec.js';
+
+import { deployAttestor } from '../attestor/deploy.js';
+import { addPendingShieldNote } from '../token/pending_shields.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+import { Operation, formatOperations } from './fuzz_harness.js';
+import { TokenSimulator } from './token_simulator.js';
+
+/** The first step of a history at which the contracts and the simulators disagreed. */
+export type FuzzFailure = {
+  step: number;
+  operation: Operation;
+  error: Error;
+};
+
+/**
+ * Replays histories against freshly deployed Token and Attestor contracts and their simulators. Every step must
+ * succeed or revert on both sides, and the simulators' invariants are checked after every step.
+ */
+export class FuzzRunner {
+  private token!: TokenContract;
+  private attestor!: AttestorContract;
+  private tokenSim!: TokenSimulator;
+  private attestorSim!: AttestorSimulator;
+
+  constructor(
+    protected pxe: PXE,
+    /** The first wallet is the admin and minter of both contracts. */
+    protected wallets: AccountWallet[],
+    protected logger: DebugLogger,
+  ) {}
+
+  /** Runs `operations` from a clean deployment, returning the first step that failed. */
+  public async run(operations: Operation[]): Promise<FuzzFailure | undefined> {
+    await this.deploy();
+    for (let step = 0; step < operations.length; step++) {
+      const operation = operations[step];
+      try {
+        await this.apply(operation);
+        await this.tokenSim.check();
+        await this.attestorSim.check(this.attestor, this.pxe);
+      } catch (err) {
+        const error = toError(err);
+        this.logger(`Step ${step} failed: ${error.message}\n${formatOperations(operations.slice(0, step + 1))}`);
+        return { step, operation, error };
+      }
+    }
+    return undefined;
+  }
+
+  private async deploy() {
+    const [admin] = this.wallets;
+    const accounts = this.wallets.map(wallet => wallet.getAddress());
+    this.token = await TokenContract.deploy(admin, admin.getAddress(), 'Fuzz Token', 'FZT', 18n).send().deployed();
+    this.attestor = await deployAttestor(admin, admin.getAddress());
+
+    this.tokenSim = new TokenSimulator(this.token, this.logger, accounts);
+    this.tokenSim.trackAttestor(this.attestor.address);
+    this.attestorSim = new AttestorSimulator(admin.getAddress());
+  }
+
+  private async apply(operation: Operation) {
+    const address = (account: number) => this.wallets[account].getAddress();
+    const token = (account: number) => this.token.withWallet(this.wallets[account]);
+
+    switch (operation.kind) {
+      case 'mintPublic': {
+        const { to, amount } = operation;
+        await this.expectSameOutcome(
+          () => this.tokenSim.mintPublic(address(to), amount),
+          () => token(0).methods.mint_public(address(to), amount).send().wait(),
+        );
+        break;
+      }
+      case 'mintPrivate': {
+        const { to, amount } = operation;
+        const secret = Fr.random();
+        await this.expectSameOutcome(
+          () => this.tokenSim.mintPrivate(amount),
+          () => token(0).methods.mint_private(amount, computeMessageSecretHash(secret)).send().wait(),
+          receipt => this.redeem(to, amount, secret, receipt.txHash),
+        );
+        break;
+      }
+      case 'shield': {
+        const { from, amount } = operation;
+        const secret = Fr.random();
+        await this.expectSameOutcome(
+          () => this.tokenSim.shield(address(from), amount),
+          () => token(from).methods.shield(address(from), amount, computeMessageSecretHash(secret), 0).send().wait(),
+          receipt => this.redeem(from, amount, secret, receipt.txHash),
+        );
+        break;
+      }
+      case 'transfer': {
+        const { from, to, amount } = operation;
+        await this.expectSameOutcome(
+          () => this.tokenSim.transferPrivate(address(from), address(to), amount),
+          () => token(from).methods.transfer(address(from), address(to), amount, 0).send().wait(),
+        );
+        break;
+      }
+      case 'unshield': {
+        const { from, to, amount } = operation;
+        await this.expectSameOutcome(
+          () => this.tokenSim.unshield(address(from), address(to), amount),
+          () => token(from).methods.unshield(address(from), address(to), amount, 0).send().wait(),
+        );
+        break;
+      }
+      case 'burn': {
+        const { from, amount } = operation;
+        await this.expectSameOutcome(
+          () => this.tokenSim.burnPrivate(address(from), amount),
+          () => token(from).methods.burn(address(from), amount, 0).send().wait(),
+        );
+        break;
+      }
+      case 'blacklist': {
+        const { shieldId } = operation;
+        const proof = await this.attestorSim.getSiblingPath(this.token.address, shieldId);
+        await this.expectSameOutcome(
+          () => this.attestorSim.addToBlacklist(this.token.address, shieldId),
+          () => this.attestor.methods.add_to_blacklist(this.token.address, shieldId, proof).send().wait(),
+        );
+        break;
+      }
+      case 'unblacklist': {
+        const { shieldId } = operation;
+        const proof = await this.attestorSim.getSiblingPath(this.token.address, shieldId);
+        await this.expectSameOutcome(
+          () => this.attestorSim.removeFromBlacklist(this.token.address, shieldId),
+          () => this.attestor.methods.remove_from_blacklist(this.token.address, shieldId, proof).send().wait(),
+        );
+        break;
+      }
+      case 'attest': {
+        const { owner } = operation;
+        const note = this.tokenSim.nextNoteToAttest(address(owner), this.attestor.address);
+        // Every slot is checked, unused ones as shield id 0
+        const shieldIds = note?.partitionTable.shieldIds.elems ?? [0n, 0n, 0n, 0n, 0n, 0n];
+        let attested = note !== undefined;
+        for (const shieldId of shieldIds) {
+          attested &&= await this.attestorSim.isNotBlacklisted(this.token.address, shieldId);
+        }
+        const root = await this.attestorSim.getRoot(this.token.address);
+        const proofs = await this.attestorSim.getSiblingPaths(this.token.address, shieldIds);
+        await this.expectSameOutcome(
+          () => this.tokenSim.requestAttestation(address(owner), this.attestor.address, attested),
+          () =>
+            token(owner)
+              .methods.request_attestation(address(owner), this.attestor.address, root, proofs.flat(), 0)
+              .send()
+              .wait(),
+        );
+        break;
+      }
+    }
+  }
+
+  private async redeem(to: number, amount: bigint, secret: Fr, txHash: TxHash) {
+    const wallet = this.wallets[to];
+    await addPendingShieldNote(wallet, this.token.address, amount, secret, txHash);
+    const noteCounter = await this.token.methods.note_counter().view();
+    await this.token
+      .withWallet(wallet)
+      .methods.redeem_shield(wallet.getAddress(), amount, noteCounter, secret)
+      .send()
+      .wait();
+    this.tokenSim.redeemShield(wallet.getAddress(), amount);
+  }
+
+  /**
+   * Applies a step to the simulators and to the contracts. The simulators throw for steps the contracts should
+   * revert, in which case the contracts must revert too, and vice versa. `then` runs after steps that went through.
+   */
+  private async expectSameOutcome<T>(
+    simulate: () => unknown,
+    send: () => Promise<T>,
+    then?: (result: T) => Promise<void>,
+  ) {
+    let simError: Error | undefined;
+    try {
+      await simulate();
+    } catch (err) {
+      simError = toError(err);
+    }
+
+    let result: T;
+    try {
+      result = await send();
+    } catch (err) {
+      if (!simError) {
+        throw new Error(`Contracts reverted but the simulators did not: ${toError(err).message}`);
+      }
+      return;
+    }
+    if (simError) {
+      throw new Error(`Simulators reverted but the contracts did not: ${simError.message}`);
+    }
+    await then?.(result);
+  }
+}
+
+function toError(err: unknown) {
+  return err instanceof Error ? err : new Error(String(err));
+}
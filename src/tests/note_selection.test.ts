@@ -0,0 +1,65 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+import { MAX_NOTE_HASH_READ_REQUESTS_PER_CALL } from '@aztec/circuits.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { BOUNDED_VEC_LEN, BoundedVec2, PartitionTable } from '../common_types/index.js';
+import { predictSpend, selectNotes } from '../token/note_selection.js';
+import { TokenNote } from '../token/token_note.js';
+
+describe('Note selection', () => {
+  const owner = AztecAddress.random();
+  const [a, b] = [AztecAddress.random(), AztecAddress.random()];
+
+  const note = (amount: bigint, shieldIds: bigint[], attestors: AztecAddress[] = []) =>
+    new TokenNote(
+      amount,
+      owner,
+      Fr.random(),
+      new PartitionTable(
+        BoundedVec2.from(shieldIds, BOUNDED_VEC_LEN),
+        BoundedVec2.from(
+          attestors.map(attestor => attestor.toBigInt()),
+          BOUNDED_VEC_LEN,
+        ),
+      ),
+    );
+
+  it('takes notes in order until they cover the amount', () => {
+    const notes = [note(100n, [1n]), note(50n, [2n]), note(200n, [3n])];
+    expect(selectNotes(notes, 100n)).toEqual(notes.slice(0, 1));
+    expect(selectNotes(notes, 101n)).toEqual(notes.slice(0, 2));
+    expect(selectNotes(notes, 350n)).toEqual(notes);
+    expect(selectNotes(notes, 0n)).toEqual([]);
+    expect(() => selectNotes(notes, 351n)).toThrow('Balance too low');
+  });
+
+  it('only selects from the notes a call can read', () => {
+    const notes = Array.from({ length: MAX_NOTE_HASH_READ_REQUESTS_PER_CALL + 1 }, (_, i) => note(1n, [BigInt(i)]));
+    expect(selectNotes(notes, BigInt(MAX_NOTE_HASH_READ_REQUESTS_PER_CALL)).length).toBe(
+      MAX_NOTE_HASH_READ_REQUESTS_PER_CALL,
+    );
+    expect(() => selectNotes(notes, BigInt(notes.length))).toThrow('Balance too low');
+  });
+
+  it('predicts the joined table and the change of a transfer', () => {
+    const notes = [note(100n, [1n], [a, b]), note(50n, [2n], [b]), note(200n, [3n], [a])];
+    const prediction = predictSpend(notes, 120n);
+
+    expect(prediction.consumed).toEqual(notes.slice(0, 2));
+    expect(prediction.partitionTable.shieldIds.items()).toEqual([1n, 2n]);
+    expect(prediction.attestations).toEqual([b]);
+    expect(prediction.droppedAttestations).toEqual([a]);
+    expect(prediction.change?.amount).toBe(30n);
+    expect(prediction.change?.partitionTable.shieldIds.items()).toEqual([2n]);
+  });
+
+  it('predicts an unshield that keeps every attestation', () => {
+    const notes = [note(100n, [1n], [a]), note(50n, [2n], [a])];
+    const prediction = predictSpend(notes, 150n, 'unshield');
+
+    expect(prediction.kind).toBe('unshield');
+    expect(prediction.attestations).toEqual([a]);
+    expect(prediction.droppedAttestations).toEqual([]);
+    expect(prediction.change).toBeUndefined();
+  });
+});
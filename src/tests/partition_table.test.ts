@@ -0,0 +1,66 @@
+import { Fr } from '@aztec/foundation/fields';
+import { describe, expect, it } from '@jest/globals';
+
+import { BOUNDED_VEC_LEN, BoundedVec2, PARTITION_TABLE_LEN, PartitionTable } from '../common_types/index.js';
+
+describe('PartitionTable', () => {
+  const table = (shieldIds: bigint[], attestations: bigint[] = [], maxBlockNumber = 0n) =>
+    new PartitionTable(
+      BoundedVec2.from(shieldIds, BOUNDED_VEC_LEN),
+      BoundedVec2.from(attestations, BOUNDED_VEC_LEN),
+      maxBlockNumber,
+    );
+
+  it('serializes to the Noir layout', () => {
+    const fields = table([3n, 9n], [42n], 7n).serialize();
+    expect(fields.length).toBe(PARTITION_TABLE_LEN);
+    expect(fields.map(f => f.toBigInt())).toEqual([2n, 3n, 9n, 0n, 0n, 0n, 0n, 1n, 42n, 0n, 0n, 0n, 0n, 0n, 7n, 0n]);
+  });
+
+  it('round-trips through serialization', () => {
+    const original = table([1n, 2n, 3n], [4n, 5n], 11n);
+    original.isTableCleared = true;
+    expect(PartitionTable.deserialize(original.serialize())).toEqual(original);
+  });
+
+  it('rejects the wrong number of fields', () => {
+    expect(() => PartitionTable.deserialize(Array(PARTITION_TABLE_LEN - 1).fill(Fr.ZERO))).toThrow(
+      `Expected ${PARTITION_TABLE_LEN} fields`,
+    );
+  });
+
+  it('creates a table with a single shield id', () => {
+    const single = PartitionTable.withSingleShieldId(12n);
+    expect(single.shieldIds.items()).toEqual([12n]);
+    expect(single.attestations.isEmpty()).toBe(true);
+    expect(single.isEmpty()).toBe(false);
+    expect(PartitionTable.empty().isEmpty()).toBe(true);
+  });
+
+  describe('join', () => {
+    it('unions origins and intersects attestations', () => {
+      const joined = table([3n, 9n], [1n, 2n], 5n).join(table([9n, 12n], [2n, 4n], 8n));
+      expect(joined.shieldIds.items()).toEqual([3n, 9n, 12n]);
+      expect(joined.attestations.items()).toEqual([2n]);
+      expect(joined.maxBlockNumber).toBe(8n);
+      expect(joined.isTableCleared).toBe(false);
+    });
+
+    it('returns the other table when one is empty', () => {
+      const other = table([1n], [2n]);
+      expect(PartitionTable.empty().join(other)).toBe(other);
+      expect(other.join(PartitionTable.empty())).toBe(other);
+    });
+
+    it('fails when the union exceeds the capacity', () => {
+      expect(() => table([1n, 2n, 3n, 4n]).join(table([5n, 6n, 7n]))).toThrow('BoundedVec2 overflow');
+    });
+  });
+
+  it('converts to and from the contract interface shape', () => {
+    const original = table([3n], [42n], 1n);
+    const struct = original.toNoirStruct();
+    expect(struct.shield_ids).toEqual({ len: 1, elems: [3n, 0n, 0n, 0n, 0n, 0n] });
+    expect(PartitionTable.fromNoirStruct(struct)).toEqual(original);
+  });
+});
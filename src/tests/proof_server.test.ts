@@ -0,0 +1,92 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+
+import { BlacklistedShieldIdError } from '../attestor/attestation_proofs.js';
+import { ProofClient } from '../attestor/proof_client.js';
+import { ProofServer, rootVersion } from '../attestor/proof_server.js';
+import { BOUNDED_VEC_LEN } from '../common_types/index.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+
+describe('ProofServer', () => {
+  const token = AztecAddress.random();
+  const bigints = (paths: { toBigInt(): bigint }[][]) => paths.map(path => path.map(node => node.toBigInt()));
+
+  let attestorSim: AttestorSimulator;
+  let server: ProofServer;
+  let url: string;
+  let client: ProofClient;
+
+  beforeEach(async () => {
+    attestorSim = new AttestorSimulator();
+    await attestorSim.addToBlacklist(token, 69n);
+    server = new ProofServer(attestorSim);
+    url = await server.start();
+    client = new ProofClient(url);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('serves the root and sibling paths of the simulator', async () => {
+    expect(await client.getRoot(token)).toBe(await attestorSim.getRoot(token));
+    expect(bigints(await client.getSiblingPaths(token, [3n, 69n]))).toEqual(
+      bigints(await attestorSim.getSiblingPaths(token, [3n, 69n])),
+    );
+  });
+
+  it('serves padded request_attestation proofs', async () => {
+    const { root, proofs } = await client.getAttestationProofs(token, [3n, 9n]);
+    const expected = await attestorSim.getSiblingPaths(token, [3n, 9n, 0n, 0n, 0n, 0n]);
+
+    expect(root).toBe(await attestorSim.getRoot(token));
+    expect(proofs.length).toBe(32 * BOUNDED_VEC_LEN);
+    expect(proofs.map(node => node.toBigInt())).toEqual(bigints(expected).flat());
+  });
+
+  it('refuses proofs for a blacklisted shield id', async () => {
+    const response = await fetch(`${url}/tokens/${token}/attestation-proofs?shieldIds=3,69`);
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({
+      root: new Fr(await attestorSim.getRoot(token)).toString(),
+      shieldIds: [new Fr(69n).toString()],
+    });
+
+    await expect(client.getAttestationProofs(token, [69n])).rejects.toThrow(BlacklistedShieldIdError);
+  });
+
+  it('versions responses by root', async () => {
+    const first = await fetch(`${url}/tokens/${token}/root`);
+    const etag = first.headers.get('ETag')!;
+    expect(etag).toBe(rootVersion(await attestorSim.getRoot(token)));
+
+    const unchanged = await fetch(`${url}/tokens/${token}/root`, { headers: { 'If-None-Match': etag } });
+    expect(unchanged.status).toBe(304);
+
+    await attestorSim.addToBlacklist(token, 420n);
+    const changed = await fetch(`${url}/tokens/${token}/root`, { headers: { 'If-None-Match': etag } });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get('ETag')).not.toBe(etag);
+  });
+
+  it('answers cached requests from the cache until the root changes', async () => {
+    const before = await client.getSiblingPaths(token, [3n]);
+    expect(bigints(await client.getSiblingPaths(token, [3n]))).toEqual(bigints(before));
+
+    await attestorSim.addToBlacklist(token, 2n);
+    expect(bigints(await client.getSiblingPaths(token, [3n]))).toEqual(
+      bigints(await attestorSim.getSiblingPaths(token, [3n])),
+    );
+  });
+
+  it('rejects malformed requests', async () => {
+    expect((await fetch(`${url}/tokens/${token}/sibling-paths`)).status).toBe(400);
+    expect((await fetch(`${url}/tokens/${token}/sibling-paths?shieldIds=1,x`)).status).toBe(400);
+    expect((await fetch(`${url}/tokens/${token}/sibling-paths?shieldIds=1,`)).status).toBe(400);
+    expect((await fetch(`${url}/tokens/${token}/sibling-paths?shieldIds=-1`)).status).toBe(400);
+    expect((await fetch(`${url}/tokens/${token}/sibling-paths?shieldIds=${2n ** 32n}`)).status).toBe(400);
+    expect((await fetch(`${url}/tokens/${token}/attestation-proofs?shieldIds=1,2,3,4,5,6,7`)).status).toBe(400);
+    expect((await fetch(`${url}/tokens/${token}/leaves`)).status).toBe(404);
+    expect((await fetch(`${url}/tokens/${token}/root`, { method: 'POST' })).status).toBe(405);
+  });
+});
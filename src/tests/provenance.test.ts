@@ -0,0 +1,56 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { BOUNDED_VEC_LEN, BoundedVec2, PartitionTable } from '../common_types/index.js';
+import { breakdownProvenance, formatProvenance } from '../token/provenance.js';
+import { TokenNote } from '../token/token_note.js';
+
+describe('Provenance', () => {
+  const owner = AztecAddress.random();
+  // In the order breakdowns list attestors
+  const [a, b] = [AztecAddress.random(), AztecAddress.random()].sort((x, y) => (x.toBigInt() < y.toBigInt() ? -1 : 1));
+  const name = (attestor: AztecAddress) => (attestor.equals(a) ? 'A' : 'B');
+
+  const note = (amount: bigint, shieldIds: bigint[], attestors: AztecAddress[] = []) =>
+    new TokenNote(
+      amount,
+      owner,
+      Fr.random(),
+      new PartitionTable(
+        BoundedVec2.from(shieldIds, BOUNDED_VEC_LEN),
+        BoundedVec2.from(
+          attestors.map(attestor => attestor.toBigInt()),
+          BOUNDED_VEC_LEN,
+        ),
+      ),
+    );
+
+  it('groups notes by origins and attestations', () => {
+    const provenance = breakdownProvenance([
+      note(300n, [12n]),
+      note(400n, [3n, 9n], [a]),
+      note(300n, [9n, 3n], [a]),
+      note(50n, [12n], [a, b]),
+    ]);
+
+    expect(provenance.total).toBe(1050n);
+    expect(provenance.groups).toEqual([
+      { amount: 700n, shieldIds: [3n, 9n], attestors: [a], noteCount: 2 },
+      { amount: 300n, shieldIds: [12n], attestors: [], noteCount: 1 },
+      {
+        amount: 50n,
+        shieldIds: [12n],
+        attestors: [a, b],
+        noteCount: 1,
+      },
+    ]);
+  });
+
+  it('describes a breakdown', () => {
+    const provenance = breakdownProvenance([note(700n, [3n, 9n], [a]), note(300n, [12n])]);
+    expect(formatProvenance(provenance, name)).toBe(
+      '700 from deposits {3,9}, attested by A; 300 from deposit {12}, unattested',
+    );
+    expect(formatProvenance(breakdownProvenance([]))).toBe('no private balance');
+  });
+});
@@ -0,0 +1,61 @@
+import { AztecAddress, Fr, TxHash, computeMessageSecretHash } from '@aztec/aztec.js';
+import { openTmpStore } from '@aztec/kv-store/utils';
+import { describe, expect, it } from '@jest/globals';
+
+import { randomBytes } from 'crypto';
+
+import { ShieldSecretVault } from '../token/shield_secret_vault.js';
+
+describe('ShieldSecretVault', () => {
+  const token = AztecAddress.random();
+  const txHash = TxHash.random();
+  const secret = Fr.random();
+  const secretHash = computeMessageSecretHash(secret);
+
+  it('stores secrets as pending', async () => {
+    const vault = await ShieldSecretVault.open('passphrase');
+    await vault.add(token, 100n, txHash, secret);
+
+    const entry = vault.get(token, 100n, txHash, secretHash)!;
+    expect(entry.secret).toEqual(secret);
+    expect(entry.secretHash).toEqual(secretHash);
+    expect(entry.status).toBe('pending');
+    expect(vault.list('pending')).toEqual([entry]);
+    expect(vault.list('redeemed')).toEqual([]);
+    expect(vault.get(token, 99n, txHash, secretHash)).toBeUndefined();
+  });
+
+  it('keeps shields of the same amount in one transaction apart', async () => {
+    const vault = await ShieldSecretVault.open('passphrase');
+    const otherSecret = Fr.random();
+    await vault.add(token, 100n, txHash, secret);
+    await vault.add(token, 100n, txHash, otherSecret);
+
+    expect(vault.list().map(entry => entry.secret)).toHaveLength(2);
+    expect(vault.get(token, 100n, txHash, secretHash)!.secret).toEqual(secret);
+    expect(vault.get(token, 100n, txHash, computeMessageSecretHash(otherSecret))!.secret).toEqual(otherSecret);
+
+    await vault.remove(token, 100n, txHash, secretHash);
+    expect(vault.list().map(entry => entry.secret)).toEqual([otherSecret]);
+  });
+
+  it('encrypts secrets at rest', async () => {
+    const db = openTmpStore();
+    await new ShieldSecretVault(db, randomBytes(32)).add(token, 100n, txHash, secret);
+
+    const stored = JSON.stringify(Array.from(db.openMap('shield_secrets').values()));
+    expect(stored).not.toContain(secret.toString().slice(2));
+    expect(() => new ShieldSecretVault(db, randomBytes(32)).list()).toThrow('Could not decrypt');
+  });
+
+  it('retries and removes known entries only', async () => {
+    const vault = await ShieldSecretVault.open('passphrase');
+    await expect(vault.retry(token, 100n, txHash, secretHash)).rejects.toThrow('No shield secret');
+
+    await vault.add(token, 100n, txHash, secret);
+    await vault.retry(token, 100n, txHash, secretHash);
+    expect(vault.get(token, 100n, txHash, secretHash)!.status).toBe('pending');
+    await vault.remove(token, 100n, txHash, secretHash);
+    expect(vault.list()).toEqual([]);
+  });
+});
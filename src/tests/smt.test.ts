@@ -0,0 +1,67 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { Fr } from '@aztec/foundation/fields';
+import { describe, expect, it } from '@jest/globals';
+
+import { smt } from '../common_types/index.js';
+import { AttestorSimulator } from './attestor_simulator.js';
+import {
+  ATTESTOR_EMPTY_ROOT,
+  SMT_DEPTH1_EMPTY_ROOT,
+  SMT_DEPTH1_LEFT_ROOT,
+  SMT_DEPTH1_RIGHT_ROOT,
+} from './fixtures/fixtures.js';
+
+describe('smt', () => {
+  describe('matches the Noir test vectors', () => {
+    it('depth1 empty', () => {
+      expect(smt.computeMerkleRoot(0n, false, [Fr.ZERO])).toBe(SMT_DEPTH1_EMPTY_ROOT);
+    });
+
+    it('depth1 left', () => {
+      expect(smt.computeMerkleRoot(0n, true, [Fr.ZERO])).toBe(SMT_DEPTH1_LEFT_ROOT);
+    });
+
+    it('depth1 right', () => {
+      expect(smt.computeMerkleRoot(1n, true, [Fr.ZERO])).toBe(SMT_DEPTH1_RIGHT_ROOT);
+    });
+  });
+
+  it('rejects a leaf index that does not fit', () => {
+    expect(() => smt.computeMerkleRoot(2n, false, [Fr.ZERO])).toThrow('does not fit in a tree of depth 1');
+  });
+
+  describe('matches @aztec/merkle-tree', () => {
+    const token = AztecAddress.random();
+
+    it('computes the Attestor empty root', async () => {
+      const attestorSim = new AttestorSimulator();
+      expect(await attestorSim.getRoot(token)).toBe(ATTESTOR_EMPTY_ROOT);
+
+      const siblings = await attestorSim.getSiblingPath(token, 69n);
+      expect(smt.verify(69n, ATTESTOR_EMPTY_ROOT, siblings)).toBe(true);
+    });
+
+    it('follows insertions and removals', async () => {
+      const attestorSim = new AttestorSimulator();
+      let root = await attestorSim.getRoot(token);
+
+      for (const shieldId of [1n, 69n, 420n, 2n ** 32n - 1n]) {
+        const siblings = await attestorSim.getSiblingPath(token, shieldId);
+        expect(() => smt.remove(shieldId, root, siblings)).toThrow("old_root is incorrect or doesn't exist");
+
+        root = smt.insert(shieldId, root, siblings);
+        await attestorSim.addToBlacklist(token, shieldId);
+        expect(root).toBe(await attestorSim.getRoot(token));
+        expect(smt.verify(shieldId, root, siblings)).toBe(false);
+      }
+
+      const siblings = await attestorSim.getSiblingPath(token, 69n);
+      expect(() => smt.insert(69n, root, siblings)).toThrow('old_root is incorrect or already exists');
+
+      root = smt.remove(69n, root, siblings);
+      await attestorSim.removeFromBlacklist(token, 69n);
+      expect(root).toBe(await attestorSim.getRoot(token));
+      expect(smt.verify(69n, root, siblings)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { BOUNDED_VEC_LEN, BoundedVec2, PartitionTable } from '../common_types/index.js';
+import { PartitionTableOverflowError, SpendPlan, planSpend, preflightSpend } from '../token/spend_preflight.js';
+import { TokenNote } from '../token/token_note.js';
+
+describe('Spend pre-flight', () => {
+  const owner = AztecAddress.random();
+
+  const note = (amount: bigint, shieldIds: bigint[]) =>
+    new TokenNote(
+      amount,
+      owner,
+      Fr.random(),
+      new PartitionTable(BoundedVec2.from(shieldIds, BOUNDED_VEC_LEN), BoundedVec2.empty(BOUNDED_VEC_LEN)),
+    );
+  const summarize = (plans: SpendPlan[]) =>
+    plans.map(({ strategy, steps }) => [
+      strategy,
+      steps.map(({ selfTransfer, prediction }) => [
+        selfTransfer,
+        prediction.amount,
+        prediction.partitionTable.shieldIds.items(),
+      ]),
+    ]);
+
+  it('lets through spends that fit the partition table', () => {
+    const notes = [note(10n, [1n, 2n, 3n]), note(10n, [4n, 5n, 6n]), note(10n, [7n])];
+    expect(preflightSpend(notes, 20n).partitionTable.shieldIds.items()).toEqual([1n, 2n, 3n, 4n, 5n, 6n]);
+  });
+
+  it('refuses a spend joining too many origins and splits it', () => {
+    const notes = [note(10n, [1n, 2n, 3n]), note(10n, [4n, 5n, 6n]), note(10n, [7n])];
+
+    expect(() => preflightSpend(notes, 25n)).toThrow(PartitionTableOverflowError);
+    expect(() => preflightSpend(notes, 25n, 'unshield')).toThrow(
+      `A unshield of 25 would join 7 origins into a partition table holding ${BOUNDED_VEC_LEN}, instead split it into unshield 20, unshield 5`,
+    );
+    expect(summarize(planSpend(notes, 25n))).toEqual([
+      [
+        'split',
+        [
+          [false, 20n, [1n, 2n, 3n, 4n, 5n, 6n]],
+          [false, 5n, [7n]],
+        ],
+      ],
+    ]);
+  });
+
+  it('consolidates notes that bring in too many origins', () => {
+    const notes = [note(10n, [1n, 2n, 3n, 4n]), note(10n, [5n, 6n, 7n]), note(30n, [1n, 2n])];
+
+    expect(() => preflightSpend(notes, 20n)).toThrow('would join 7 origins');
+    expect(summarize(planSpend(notes, 20n))).toEqual([
+      [
+        'split',
+        [
+          [false, 10n, [1n, 2n, 3n, 4n]],
+          [false, 10n, [5n, 6n, 7n]],
+        ],
+      ],
+      [
+        'consolidate',
+        [
+          [true, 10n, [1n, 2n, 3n, 4n]],
+          [false, 20n, [5n, 6n, 7n, 1n, 2n]],
+        ],
+      ],
+    ]);
+  });
+});
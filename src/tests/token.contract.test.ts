@@ -1,12 +1,11 @@
 import {
   AccountWallet,
+  AztecAddress,
   CompleteAddress,
   DebugLogger,
-  ExtendedNote,
   PXE,
   Fr,
   FunctionSelector,
-  Note,
   createDebugLogger,
   TxHash,
   computeAuthWitMessageHash,
@@ -24,6 +23,16 @@ import { TokenSimulator } from './token_simulator.js';
 import { AttestorContract } from '../artifacts/Attestor.js';
 import { AttestorSimulator } from './attestor_simulator.js';
 import { TokenContract } from '../artifacts/Token.js';
+import { getTokenNotes } from '../token/token_note.js';
+import { formatProvenance, getBalanceProvenance } from '../token/provenance.js';
+import { predictSpendOf } from '../token/note_selection.js';
+import { AttestationOrchestrator, StaleRootEvent } from '../token/attestation_orchestrator.js';
+import { RedemptionQueue } from '../token/redemption_queue.js';
+import { addPendingShieldNote } from '../token/pending_shields.js';
+import { ShieldSecretVault } from '../token/shield_secret_vault.js';
+import { UnshieldAuditor } from '../token/unshield_auditor.js';
+import { ProofServer } from '../attestor/proof_server.js';
+import { ProofClient } from '../attestor/proof_client.js';
 
 const TIMEOUT = 100_000;
 
@@ -46,22 +55,6 @@ describe('e2e_token_contract', () => {
   let tokenSim: TokenSimulator;
   let attestorSim: AttestorSimulator;
 
-  const addPendingShieldNoteToPXE = async (accountIndex: number, amount: bigint, secretHash: Fr, txHash: TxHash) => {
-    const storageSlot = new Fr(5); // The storage slot of `pending_shields` is 5.
-    const noteTypeId = new Fr(84114971101151129711410111011678111116101n); // TransparentNote
-
-    const note = new Note([new Fr(amount), secretHash]);
-    const extendedNote = new ExtendedNote(
-      note,
-      accounts[accountIndex].address,
-      asset.address,
-      storageSlot,
-      noteTypeId,
-      txHash,
-    );
-    await wallets[accountIndex].addNote(extendedNote);
-  };
-
   const toString = (val: bigint[]) => {
     let str = '';
     for (let i = 0; i < val.length; i++) {
@@ -269,7 +262,7 @@ describe('e2e_token_contract', () => {
         });
 
         it('redeem as recipient', async () => {
-          await addPendingShieldNoteToPXE(0, amount, secretHash, txHash);
+          await addPendingShieldNote(wallets[0], asset.address, amount, secret, txHash);
           const noteCounter = await asset.methods.note_counter().view();
           const txClaim = asset.methods.redeem_shield(accounts[0].address, amount, noteCounter, secret).send();
           // docs:start:debug
@@ -285,7 +278,7 @@ describe('e2e_token_contract', () => {
 
       describe('failure cases', () => {
         it('try to redeem as recipient (double-spend) [REVERTS]', async () => {
-          await expect(addPendingShieldNoteToPXE(0, amount, secretHash, txHash)).rejects.toThrow(
+          await expect(addPendingShieldNote(wallets[0], asset.address, amount, secret, txHash)).rejects.toThrow(
             'The note has been destroyed.',
           );
           const noteCounter = await asset.methods.note_counter().view();
@@ -767,7 +760,7 @@ describe('e2e_token_contract', () => {
       await tokenSim.check();
 
       // Redeem it
-      await addPendingShieldNoteToPXE(0, amount, secretHash, receipt.txHash);
+      await addPendingShieldNote(wallets[0], asset.address, amount, secret, receipt.txHash);
       const noteCounter = await asset.methods.note_counter().view();
       await asset.methods.redeem_shield(accounts[0].address, amount, noteCounter, secret).send().wait();
 
@@ -797,13 +790,63 @@ describe('e2e_token_contract', () => {
       await expect(txReplay.wait()).rejects.toThrow('Transaction ');
 
       // Redeem it
-      await addPendingShieldNoteToPXE(0, amount, secretHash, receipt.txHash);
+      await addPendingShieldNote(wallets[0], asset.address, amount, secret, receipt.txHash);
       const noteCounter = await asset.methods.note_counter().view();
       await asset.methods.redeem_shield(accounts[0].address, amount, noteCounter, secret).send().wait();
 
       tokenSim.redeemShield(accounts[0].address, amount);
     });
 
+    it('concurrent redemptions', async () => {
+      const balancePub = await asset.methods.balance_of_public(accounts[0].address).view();
+      const amount = balancePub / 4n;
+      expect(amount).toBeGreaterThan(0n);
+
+      const secrets = [Fr.random(), Fr.random()];
+      for (const s of secrets) {
+        const tx = asset.methods.shield(accounts[0].address, amount, computeMessageSecretHash(s), 0).send();
+        await addPendingShieldNote(wallets[0], asset.address, amount, s, tx);
+        tokenSim.shield(accounts[0].address, amount);
+      }
+      await tokenSim.check();
+
+      // Separate queues so that both redemptions read the same note counter
+      const noteCounter = BigInt(await asset.methods.note_counter().view());
+      const results = await Promise.all(
+        secrets.map(s => new RedemptionQueue(wallets[0], asset).redeemShield(accounts[0].address, amount, s)),
+      );
+      const shieldIds = results.map(r => r.shieldId).sort((a, b) => Number(a - b));
+      shieldIds.forEach(shieldId => tokenSim.redeemShield(accounts[0].address, amount, shieldId));
+      expect(shieldIds).toEqual([noteCounter, noteCounter + 1n]);
+      expect(BigInt(await asset.methods.note_counter().view())).toBe(noteCounter + 2n);
+    });
+
+    it('redeem all pending from the vault', async () => {
+      const balancePub = await asset.methods.balance_of_public(accounts[0].address).view();
+      const amount = balancePub / 4n;
+      expect(amount).toBeGreaterThan(0n);
+
+      const vault = await ShieldSecretVault.open('passphrase');
+      const vaultSecret = Fr.random();
+      const receipt = await asset.methods
+        .shield(accounts[0].address, amount, computeMessageSecretHash(vaultSecret), 0)
+        .send()
+        .wait();
+      tokenSim.shield(accounts[0].address, amount);
+      await vault.add(asset.address, amount, receipt.txHash, vaultSecret);
+
+      const noteCounter = BigInt(await asset.methods.note_counter().view());
+      const [entry] = await vault.redeemAllPending(wallets[0]);
+      tokenSim.redeemShield(accounts[0].address, amount);
+      expect(entry).toMatchObject({ status: 'redeemed', shieldId: noteCounter });
+      expect(vault.list('pending')).toEqual([]);
+
+      // The pending note is gone, so redeeming it again fails
+      await vault.retry(asset.address, amount, receipt.txHash, computeMessageSecretHash(vaultSecret));
+      const [retried] = await vault.redeemAllPending(wallets[0]);
+      expect(retried.status).toBe('failed');
+    });
+
     describe('failure cases', () => {
       it('on behalf of self (more than balance)', async () => {
         const balancePub = await asset.methods.balance_of_public(accounts[0].address).view();
@@ -870,9 +913,23 @@ describe('e2e_token_contract', () => {
       const amount = balancePriv / 2n;
       expect(amount).toBeGreaterThan(0n);
 
-      await asset.methods.unshield(accounts[0].address, accounts[0].address, amount, 0).send().wait();
+      const receipt = await asset.methods.unshield(accounts[0].address, accounts[0].address, amount, 0).send().wait();
 
       tokenSim.unshield(accounts[0].address, accounts[0].address, amount);
+
+      // Nothing attested the notes yet
+      const auditor = new UnshieldAuditor(pxe, [asset.address], {}, receipt.blockNumber!);
+      const [report] = await auditor.audit(receipt.blockNumber!);
+      expect(report.unshields).toEqual([
+        {
+          token: asset.address,
+          to: accounts[0].address,
+          amount,
+          attestors: [],
+          trustedAttestors: [],
+          findings: ['no_attestation'],
+        },
+      ]);
     });
 
     it('on behalf of other', async () => {
@@ -1187,7 +1244,7 @@ describe('e2e_token_contract', () => {
 
         tokenSim.mintPrivate(amount);
         txHash = receipt.txHash;
-        await addPendingShieldNoteToPXE(0, amount, secretHash, txHash);
+        await addPendingShieldNote(wallets[0], asset.address, amount, secret, txHash);
 
         const noteCounter = await asset.methods.note_counter().view();
         await asset.methods.redeem_shield(accounts[0].address, amount, noteCounter, secret).send().wait();
@@ -1196,6 +1253,7 @@ describe('e2e_token_contract', () => {
         attestor = await AttestorContract.deploy(wallets[0], accounts[0].address).send().deployed();
         logger(`Attestor deployed to ${attestor.address}`);
         attestorSim = new AttestorSimulator();
+        tokenSim.trackAttestor(attestor.address);
       }, 100_000);
 
       it('Has attestation', async () => {
@@ -1210,8 +1268,19 @@ describe('e2e_token_contract', () => {
           .request_attestation(accounts[0].address, attestor.address, root, proofs.flat(), 0)
           .send()
           .wait();
+        tokenSim.requestAttestation(accounts[0].address, attestor.address);
 
         expect(await asset.methods.has_attestation(accounts[0].address, attestor.address).view()).toBe(true);
+
+        const notes = await getTokenNotes(pxe, asset.address, accounts[0].address);
+        expect(notes.map(note => [note.amount, note.shieldIds, note.attestations])).toEqual([
+          [amount, [shieldId], [attestor.address]],
+        ]);
+
+        const provenance = await getBalanceProvenance(pxe, asset.address, accounts[0].address);
+        expect(formatProvenance(provenance, () => 'attestor')).toBe(
+          `${amount} from deposit {${shieldId}}, attested by attestor`,
+        );
       });
 
       it('Request attestation after blacklisting', async () => {
@@ -1231,7 +1300,59 @@ describe('e2e_token_contract', () => {
           .request_attestation(accounts[0].address, attestor.address, root, proofs.flat(), 0)
           .send()
           .wait();
+        tokenSim.requestAttestation(accounts[0].address, attestor.address, false);
+
+        expect(await asset.methods.has_attestation(accounts[0].address, attestor.address).view()).toBe(false);
+      });
+
+      it('Request attestation for all notes', async () => {
+        const orchestrator = new AttestationOrchestrator(wallets[0], asset, attestor, attestorSim, logger);
+        const results = await orchestrator.attestAll(accounts[0].address);
+        tokenSim.requestAttestation(accounts[0].address, attestor.address);
+
+        expect(results.map(r => r.status)).toEqual(['attested']);
+        expect(await orchestrator.lastUnattestedNote(accounts[0].address)).toBeUndefined();
+        expect(await asset.methods.has_attestation(accounts[0].address, attestor.address).view()).toBe(true);
+      });
+
+      it('Request attestation for all notes while the blacklist changes', async () => {
+        // Blacklists an unrelated shield id right after handing out the first proofs, making their root stale
+        let updated = false;
+        const racingProofs = {
+          getSiblingPaths: async (token: AztecAddress, shieldIds: bigint[]) => {
+            const proofs = await attestorSim.getSiblingPaths(token, shieldIds);
+            if (!updated) {
+              updated = true;
+              const proof = await attestorSim.getSiblingPath(token, 1234n);
+              await attestor.methods.add_to_blacklist(token, 1234n, proof).send().wait();
+              await attestorSim.addToBlacklist(token, 1234n);
+            }
+            return proofs;
+          },
+        };
+
+        const orchestrator = new AttestationOrchestrator(wallets[0], asset, attestor, racingProofs, logger);
+        const staleRoots: StaleRootEvent[] = [];
+        orchestrator.on('staleRoot', event => staleRoots.push(event));
+        const results = await orchestrator.attestAll(accounts[0].address);
+        tokenSim.requestAttestation(accounts[0].address, attestor.address);
+
+        expect(staleRoots.map(e => e.attempt)).toEqual([1]);
+        expect(results.map(r => [r.status, r.attempts])).toEqual([['attested', 2]]);
+        expect(await asset.methods.has_attestation(accounts[0].address, attestor.address).view()).toBe(true);
+      });
+
+      it('Request attestation for all notes after blacklisting', async () => {
+        const proof = await attestorSim.getSiblingPath(asset.address, shieldId);
+        await attestor.methods.add_to_blacklist(asset.address, shieldId, proof).send().wait();
+        await attestorSim.addToBlacklist(asset.address, shieldId);
+
+        const orchestrator = new AttestationOrchestrator(wallets[0], asset, attestor, attestorSim, logger);
+        const results = await orchestrator.attestAll(accounts[0].address);
 
+        expect(results.map(r => [r.status, r.blacklistedShieldIds, r.note.amount])).toEqual([
+          ['blacklisted', [shieldId], amount],
+        ]);
         expect(await asset.methods.has_attestation(accounts[0].address, attestor.address).view()).toBe(false);
       });
     });
@@ -1259,7 +1380,7 @@ describe('e2e_token_contract', () => {
 
         tokenSim.mintPrivate(amount);
         txHash = receipt.txHash;
-        await addPendingShieldNoteToPXE(0, amount, secretHash, txHash);
+        await addPendingShieldNote(wallets[0], asset.address, amount, secret, txHash);
 
         const noteCounter = await asset.methods.note_counter().view();
         await asset.methods.redeem_shield(accounts[0].address, amount, noteCounter, secret).send().wait();
@@ -1268,6 +1389,7 @@ describe('e2e_token_contract', () => {
         attestor = await AttestorContract.deploy(wallets[0], accounts[0].address).send().deployed();
         logger(`Attestor deployed to ${attestor.address}`);
         attestorSim = new AttestorSimulator();
+        tokenSim.trackAttestor(attestor.address);
 
         account1 = accounts[0];
         account2 = accounts[1];
@@ -1277,13 +1399,17 @@ describe('e2e_token_contract', () => {
 
       it('Attestation transfer', async () => {
         let root = await attestor.methods.get_blacklist_root(asset.address).view();
-        const proofs = await attestorSim.getSiblingPaths(asset.address, shieldIds);
+        // Proofs come from a proof server in front of the simulator, as a wallet would get them
+        const server = new ProofServer(attestorSim);
+        const proofClient = new ProofClient(await server.start());
+        const proofs = await proofClient.getSiblingPaths(asset.address, shieldIds).finally(() => server.stop());
 
         await asset
           .withWallet(wallet1)
           .methods.request_attestation(account1, attestor.address, root, proofs.flat(), 0)
           .send()
           .wait();
+        tokenSim.requestAttestation(account1.address, attestor.address);
 
         expect(await asset.methods.has_attestation(account1, attestor.address).view()).toBe(true);
         expect(await asset.methods.has_attestation(account2, attestor.address).view()).toBe(false);
@@ -1291,11 +1417,20 @@ describe('e2e_token_contract', () => {
         const balance0 = await asset.methods.balance_of_private(account1).view();
         const amount = balance0 / 2n;
         expect(amount).toBeGreaterThan(0n);
+        const prediction = await predictSpendOf(pxe, asset.address, account1.address, amount);
+        expect(prediction.droppedAttestations).toEqual([]);
+
         await asset.withWallet(wallet1).methods.transfer(account1, account2, amount, 0).send().wait();
         tokenSim.transferPrivate(account1.address, account2.address, amount);
 
         expect(await asset.methods.has_attestation(account1, attestor.address).view()).toBe(true);
         expect(await asset.methods.has_attestation(account2, attestor.address).view()).toBe(true);
+
+        const [received] = await getTokenNotes(pxe, asset.address, account2.address);
+        expect([received.shieldIds, received.attestations]).toEqual([
+          prediction.partitionTable.shieldIds.items(),
+          prediction.attestations,
+        ]);
       });
 
       it('Deposit ID transfer', async () => {
@@ -1324,6 +1459,7 @@ describe('e2e_token_contract', () => {
           .methods.request_attestation(account2, attestor.address, root2, proofs.flat(), 0)
           .send()
           .wait();
+        tokenSim.requestAttestation(account2.address, attestor.address, false);
 
         expect(await asset.methods.has_attestation(account2, attestor.address).view()).toBe(false);
       });
@@ -1352,7 +1488,7 @@ describe('e2e_token_contract', () => {
 
         tokenSim.mintPrivate(amount);
         txHash = receipt.txHash;
-        await addPendingShieldNoteToPXE(0, amount, secretHash, txHash);
+        await addPendingShieldNote(wallets[0], asset.address, amount, secret, txHash);
 
         const noteCounter = await asset.methods.note_counter().view();
         await asset.methods.redeem_shield(accounts[0].address, amount, noteCounter, secret).send().wait();
@@ -1361,6 +1497,7 @@ describe('e2e_token_contract', () => {
         attestor = await AttestorContract.deploy(wallets[0], accounts[0].address).send().deployed();
         logger(`Attestor deployed to ${attestor.address}`);
         attestorSim = new AttestorSimulator();
+        tokenSim.trackAttestor(attestor.address);
 
         account1 = accounts[0];
         account2 = accounts[1];
@@ -1377,6 +1514,7 @@ describe('e2e_token_contract', () => {
           .methods.request_attestation(account1, attestor.address, root, proofs.flat(), 0)
           .send()
           .wait();
+        tokenSim.requestAttestation(account1.address, attestor.address);
 
         expect(await asset.methods.has_attestation(account1, attestor.address).view()).toBe(true);
         expect(await asset.methods.has_attestation(account2, attestor.address).view()).toBe(false);
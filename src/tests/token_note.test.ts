@@ -0,0 +1,46 @@
+import { AztecAddress, ExtendedNote, Fr, Note, TxHash } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { BOUNDED_VEC_LEN, BoundedVec2, PartitionTable } from '../common_types/index.js';
+import { TOKEN_NOTE_LEN, TOKEN_NOTE_TYPE_ID, TokenNote } from '../token/token_note.js';
+
+describe('TokenNote', () => {
+  const owner = AztecAddress.random();
+  const attestor = AztecAddress.random();
+  const partitionTable = new PartitionTable(
+    BoundedVec2.from([3n, 9n], BOUNDED_VEC_LEN),
+    BoundedVec2.from([attestor.toBigInt()], BOUNDED_VEC_LEN),
+  );
+  const tokenNote = new TokenNote(700n, owner, Fr.random(), partitionTable);
+
+  const extendedNote = (noteTypeId: Fr) =>
+    new ExtendedNote(
+      new Note(tokenNote.toFields()),
+      owner,
+      AztecAddress.random(),
+      Fr.random(),
+      noteTypeId,
+      TxHash.random(),
+    );
+
+  it('decodes a note returned by the PXE', () => {
+    expect(tokenNote.toFields().length).toBe(TOKEN_NOTE_LEN);
+
+    const decoded = TokenNote.fromExtendedNote(extendedNote(TOKEN_NOTE_TYPE_ID));
+    expect(decoded).toEqual(tokenNote);
+    expect(decoded.shieldIds).toEqual([3n, 9n]);
+    expect(decoded.attestations).toEqual([attestor]);
+  });
+
+  it('rejects notes of another type', () => {
+    expect(() => TokenNote.fromExtendedNote(extendedNote(new Fr(84114971101151129711410111011678111116101n)))).toThrow(
+      'is not the TokenNote type id',
+    );
+  });
+
+  it('rejects the wrong number of fields', () => {
+    expect(() => TokenNote.fromNote(new Note(tokenNote.toFields().slice(1)))).toThrow(
+      `Expected ${TOKEN_NOTE_LEN} fields`,
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { AztecAddress, createDebugLogger } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { TokenContract } from '../artifacts/Token.js';
+import { TokenSimulator } from './token_simulator.js';
+
+describe('TokenSimulator', () => {
+  const [alice, bob, attestor] = [AztecAddress.random(), AztecAddress.random(), AztecAddress.random()];
+  const origins = (notes: { partitionTable: { shieldIds: { items(): bigint[] } } }[]) =>
+    notes.map(note => note.partitionTable.shieldIds.items());
+
+  const setup = () => {
+    const sim = new TokenSimulator({} as TokenContract, createDebugLogger('box:token_simulator_test'), [alice, bob]);
+    sim.redeemShield(alice, 10n);
+    sim.redeemShield(alice, 20n);
+    return sim;
+  };
+
+  it('joins the consumed tables on transfer and keeps the last one for the change', () => {
+    const sim = setup();
+    sim.transferPrivate(alice, bob, 15n);
+
+    expect(sim.notesOf(alice).map(note => note.amount)).toEqual([15n]);
+    expect(origins(sim.notesOf(alice))).toEqual([[1n]]);
+    expect(origins(sim.notesOf(bob))).toEqual([[0n, 1n]]);
+    expect(sim.balanceOfPrivate(bob)).toBe(15n);
+  });
+
+  it('attests the last unattested note and only reports on the last note', () => {
+    const sim = setup();
+    sim.requestAttestation(alice, attestor);
+    expect(sim.hasAttestation(alice, attestor)).toBe(true);
+    expect(sim.lastUnattestedNote(alice, attestor)?.amount).toBe(10n);
+
+    sim.requestAttestation(alice, attestor, false);
+    expect(sim.lastUnattestedNote(alice, attestor)?.amount).toBe(10n);
+
+    sim.requestAttestation(alice, attestor);
+    expect(sim.lastUnattestedNote(alice, attestor)).toBeUndefined();
+
+    // Attestations only survive a transfer if every consumed note has them
+    sim.redeemShield(alice, 5n);
+    expect(sim.hasAttestation(alice, attestor)).toBe(false);
+    sim.transferPrivate(alice, bob, 30n);
+    expect(sim.hasAttestation(bob, attestor)).toBe(true);
+  });
+
+  it('creates an empty note on a zero transfer', () => {
+    const sim = setup();
+    sim.requestAttestation(alice, attestor);
+    sim.requestAttestation(alice, attestor);
+    sim.transferPrivate(alice, alice, 0n);
+
+    expect(sim.lastUnattestedNote(alice, attestor)?.amount).toBe(0n);
+    sim.requestAttestation(alice, attestor);
+    expect(sim.notesOf(alice).filter(note => note.partitionTable.hasAttestation(attestor))).toHaveLength(2);
+  });
+});
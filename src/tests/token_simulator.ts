@@ -1,14 +1,34 @@
 import { TokenContract } from '../artifacts/Token.js';
 import { AztecAddress, DebugLogger } from '@aztec/aztec.js';
+import { MAX_NOTE_HASH_READ_REQUESTS_PER_CALL } from '@aztec/circuits.js';
+
+import { PartitionTable } from '../common_types/index.js';
+import { NoirTokenNote, TokenNote } from '../token/token_note.js';
+
+// Notes returned by `view_notes` (unconstrained) and `get_notes` (private) at once
+const MAX_NOTES_PER_PAGE = 10;
+
+/** A private note as modelled by the simulator, which cannot know its randomness. */
+export type SimulatedNote = {
+  amount: bigint;
+  partitionTable: PartitionTable;
+};
 
 export class TokenSimulator {
-  private balancesPrivate: Map<AztecAddress, bigint> = new Map();
+  // Private notes by owner, in the order the PXE returns them
+  private notes: Map<string, SimulatedNote[]> = new Map();
   private balancePublic: Map<AztecAddress, bigint> = new Map();
+  private attestors: AztecAddress[] = [];
   public totalSupply: bigint = 0n;
   public numShields: bigint = 0n;
 
   constructor(protected token: TokenContract, protected logger: DebugLogger, protected accounts: AztecAddress[]) {}
 
+  /** Makes `check()` compare the attestation state of every account for `attestor`. */
+  public trackAttestor(attestor: AztecAddress) {
+    this.attestors.push(attestor);
+  }
+
   public mintPrivate(amount: bigint) {
     this.totalSupply += amount;
   }
@@ -19,6 +39,13 @@ export class TokenSimulator {
     this.balancePublic.set(to, value + amount);
   }
 
+  /** `shieldId` defaults to the next note counter, which it is unless redemptions raced each other. */
+  public privatelyMintPrivateNote(minter: AztecAddress, amount: bigint, shieldId: bigint = this.numShields) {
+    this.totalSupply += amount;
+    this.addNote(minter, amount, PartitionTable.withSingleShieldId(shieldId));
+    this.numShields += 1n;
+  }
+
   public transferPublic(from: AztecAddress, to: AztecAddress, amount: bigint) {
     const fromBalance = this.balancePublic.get(from) || 0n;
     this.balancePublic.set(from, fromBalance - amount);
@@ -29,12 +56,8 @@ export class TokenSimulator {
   }
 
   public transferPrivate(from: AztecAddress, to: AztecAddress, amount: bigint) {
-    const fromBalance = this.balancesPrivate.get(from) || 0n;
-    expect(fromBalance).toBeGreaterThanOrEqual(amount);
-    this.balancesPrivate.set(from, fromBalance - amount);
-
-    const toBalance = this.balancesPrivate.get(to) || 0n;
-    this.balancesPrivate.set(to, toBalance + amount);
+    const partitionTable = this.subNotes(from, amount);
+    this.addNote(to, amount, partitionTable);
   }
 
   public shield(from: AztecAddress, amount: bigint) {
@@ -43,26 +66,20 @@ export class TokenSimulator {
     this.balancePublic.set(from, fromBalance - amount);
   }
 
-  public redeemShield(to: AztecAddress, amount: bigint) {
-    const toBalance = this.balancesPrivate.get(to) || 0n;
-    this.balancesPrivate.set(to, toBalance + amount);
-
+  /** `shieldId` defaults to the next note counter, which it is unless redemptions raced each other. */
+  public redeemShield(to: AztecAddress, amount: bigint, shieldId: bigint = this.numShields) {
+    this.addNote(to, amount, PartitionTable.withSingleShieldId(shieldId));
     this.numShields += 1n;
   }
 
   public unshield(from: AztecAddress, to: AztecAddress, amount: bigint) {
-    const fromBalance = this.balancesPrivate.get(from) || 0n;
+    this.subNotes(from, amount);
     const toBalance = this.balancePublic.get(to) || 0n;
-    expect(fromBalance).toBeGreaterThanOrEqual(amount);
-    this.balancesPrivate.set(from, fromBalance - amount);
     this.balancePublic.set(to, toBalance + amount);
   }
 
   public burnPrivate(from: AztecAddress, amount: bigint) {
-    const fromBalance = this.balancesPrivate.get(from) || 0n;
-    expect(fromBalance).toBeGreaterThanOrEqual(amount);
-    this.balancesPrivate.set(from, fromBalance - amount);
-
+    this.subNotes(from, amount);
     this.totalSupply -= amount;
   }
 
@@ -74,12 +91,59 @@ export class TokenSimulator {
     this.totalSupply -= amount;
   }
 
+  /**
+   * Mirrors `request_attestation`: the last non-empty note of `owner` lacking an attestation of `attestor` gets one,
+   * if the attestor `attested` it. The attested note is replaced by a new one at the end of the owner's notes.
+   */
+  public requestAttestation(owner: AztecAddress, attestor: AztecAddress, attested = true) {
+    const note = this.nextNoteToAttest(owner, attestor);
+    if (!note || !attested) {
+      return;
+    }
+
+    const attestations = note.partitionTable.attestations.clone();
+    attestations.push(attestor.toBigInt());
+    const notes = this.notesOf(owner);
+    notes.splice(notes.indexOf(note), 1);
+    this.addNote(owner, note.amount, new PartitionTable(note.partitionTable.shieldIds.clone(), attestations));
+  }
+
+  /** The note `request_attestation` would pick: the last non-empty note of `owner` lacking an attestation. */
+  public nextNoteToAttest(owner: AztecAddress, attestor: AztecAddress): SimulatedNote | undefined {
+    const candidates = this.notesOf(owner)
+      .slice(0, MAX_NOTE_HASH_READ_REQUESTS_PER_CALL)
+      .filter(note => note.amount > 0n && !note.partitionTable.hasAttestation(attestor));
+    return candidates[candidates.length - 1];
+  }
+
   public balanceOfPublic(address: AztecAddress) {
     return this.balancePublic.get(address) || 0n;
   }
 
   public balanceOfPrivate(address: AztecAddress) {
-    return this.balancesPrivate.get(address) || 0n;
+    return this.notesOf(address).reduce((sum, note) => sum + note.amount, 0n);
+  }
+
+  public notesOf(owner: AztecAddress) {
+    const key = owner.toString();
+    if (!this.notes.has(key)) {
+      this.notes.set(key, []);
+    }
+    return this.notes.get(key)!;
+  }
+
+  /** Mirrors the `has_attestation` view, which only reports on the last note it sees. */
+  public hasAttestation(owner: AztecAddress, attestor: AztecAddress) {
+    const visible = this.notesOf(owner).slice(0, MAX_NOTES_PER_PAGE);
+    return visible.length > 0 && visible[visible.length - 1].partitionTable.hasAttestation(attestor);
+  }
+
+  /** Mirrors the `last_unattested_note` view, which unlike `request_attestation` also returns empty notes. */
+  public lastUnattestedNote(owner: AztecAddress, attestor: AztecAddress): SimulatedNote | undefined {
+    const unattested = this.notesOf(owner)
+      .slice(0, MAX_NOTES_PER_PAGE)
+      .filter(note => !note.partitionTable.hasAttestation(attestor));
+    return unattested[unattested.length - 1];
   }
 
   public async check() {
@@ -89,6 +153,56 @@ export class TokenSimulator {
     for (const address of this.accounts) {
       expect(await this.token.methods.balance_of_public({ address }).view()).toEqual(this.balanceOfPublic(address));
       expect(await this.token.methods.balance_of_private({ address }).view()).toEqual(this.balanceOfPrivate(address));
+
+      for (const attestor of this.attestors) {
+        expect(await this.token.methods.has_attestation(address, attestor).view()).toEqual(
+          this.hasAttestation(address, attestor),
+        );
+
+        const maybeNote = await this.token.methods.last_unattested_note(address, attestor).view();
+        const expected = this.lastUnattestedNote(address, attestor);
+        expect(maybeNote._is_some).toEqual(expected !== undefined);
+        if (maybeNote._is_some && expected) {
+          const note = TokenNote.fromNoirStruct(maybeNote._value as NoirTokenNote);
+          expect([note.amount, note.shieldIds, note.attestations]).toEqual([
+            expected.amount,
+            expected.partitionTable.shieldIds.items(),
+            expected.partitionTable.attestations.items().map(a => AztecAddress.fromBigInt(a)),
+          ]);
+        }
+      }
+    }
+  }
+
+  private addNote(owner: AztecAddress, amount: bigint, partitionTable: PartitionTable) {
+    this.notesOf(owner).push({ amount, partitionTable });
+  }
+
+  /**
+   * Mirrors `BalancesMap.sub`: consumes notes in order until they cover `amount`, gives the change the table of the
+   * last consumed note and returns the join of all consumed tables.
+   */
+  private subNotes(owner: AztecAddress, amount: bigint) {
+    const notes = this.notesOf(owner);
+    const consumed: SimulatedNote[] = [];
+    let sum = 0n;
+    for (const note of notes.slice(0, MAX_NOTE_HASH_READ_REQUESTS_PER_CALL)) {
+      if (sum >= amount) {
+        break;
+      }
+      consumed.push(note);
+      sum += note.amount;
+    }
+    expect(sum).toBeGreaterThanOrEqual(amount);
+
+    // Joined before anything is consumed, so that an overflowing table leaves the notes untouched
+    const joined = consumed.reduce((table, note) => table.join(note.partitionTable), PartitionTable.empty());
+    for (const note of consumed) {
+      notes.splice(notes.indexOf(note), 1);
+    }
+    if (sum > amount) {
+      this.addNote(owner, sum - amount, consumed[consumed.length - 1].partitionTable.clone());
     }
+    return joined;
   }
 }
@@ -0,0 +1,68 @@
+import { AztecAddress } from '@aztec/aztec.js';
+import { Fr } from '@aztec/foundation/fields';
+import { openTmpStore } from '@aztec/kv-store/utils';
+import { describe, expect, it } from '@jest/globals';
+
+import { BlacklistTreeStore } from '../attestor/blacklist_tree_store.js';
+import {
+  BlacklistTreeConfig,
+  DEFAULT_TREE_CONFIG,
+  computeEmptyRoot,
+  smt,
+  validateTreeConfig,
+} from '../common_types/index.js';
+import { ATTESTOR_EMPTY_ROOT, SMT_DEPTH1_EMPTY_ROOT } from './fixtures/fixtures.js';
+
+describe('BlacklistTreeConfig', () => {
+  const poseidon2: BlacklistTreeConfig = { ...DEFAULT_TREE_CONFIG, hasher: 'poseidon2' };
+
+  it('derives the EMPTY_ROOT the contracts are compiled with', () => {
+    expect(computeEmptyRoot(DEFAULT_TREE_CONFIG)).toBe(ATTESTOR_EMPTY_ROOT);
+    expect(computeEmptyRoot({ ...DEFAULT_TREE_CONFIG, depth: 1 })).toBe(SMT_DEPTH1_EMPTY_ROOT);
+  });
+
+  it('derives a different empty root for Poseidon2', () => {
+    expect(computeEmptyRoot(poseidon2)).not.toBe(ATTESTOR_EMPTY_ROOT);
+  });
+
+  it('proves updates of a Poseidon2 tree', async () => {
+    const token = AztecAddress.random();
+    const store = BlacklistTreeStore.open(undefined, poseidon2);
+    expect(await store.getRoot(token)).toBe(computeEmptyRoot(poseidon2));
+
+    const siblingPath = await store.getSiblingPath(token, 69n);
+    const root = smt.insert(69n, await store.getRoot(token), siblingPath, poseidon2);
+    await store.addToBlacklist(token, 69n);
+    expect(await store.getRoot(token)).toBe(root);
+    expect(() => smt.insert(69n, root, siblingPath, poseidon2)).toThrow('old_root is incorrect or already exists');
+  });
+
+  it('rejects invalid configurations', () => {
+    expect(() => validateTreeConfig({ ...DEFAULT_TREE_CONFIG, depth: 0 })).toThrow('Tree depth must be an integer');
+    expect(() => validateTreeConfig({ ...DEFAULT_TREE_CONFIG, emptyLeaf: 1n })).toThrow('The empty leaf cannot be 1');
+    expect(() =>
+      validateTreeConfig({ ...DEFAULT_TREE_CONFIG, hasher: 'sha256' as unknown as BlacklistTreeConfig['hasher'] }),
+    ).toThrow('Unknown tree hasher sha256');
+  });
+
+  it('only stores trees with a zero empty leaf', () => {
+    expect(() => new BlacklistTreeStore(openTmpStore(), { ...DEFAULT_TREE_CONFIG, emptyLeaf: 2n })).toThrow(
+      'stored with an empty leaf of 0',
+    );
+    expect(
+      smt.verify(0n, computeEmptyRoot({ depth: 1, hasher: 'pedersen', emptyLeaf: 2n }), [new Fr(2n)], {
+        hasher: 'pedersen',
+        emptyLeaf: 2n,
+      }),
+    ).toBe(true);
+  });
+
+  it('refuses to load a stored tree of another depth', async () => {
+    const db = openTmpStore();
+    const token = AztecAddress.random();
+    await new BlacklistTreeStore(db).addToBlacklist(token, 1n);
+    await expect(new BlacklistTreeStore(db, { ...DEFAULT_TREE_CONFIG, depth: 16 }).getTree(token)).rejects.toThrow(
+      'has depth 32, expected 16',
+    );
+  });
+});
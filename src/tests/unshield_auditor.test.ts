@@ -0,0 +1,101 @@
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+import { describe, expect, it } from '@jest/globals';
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { UnshieldAuditReport, UnshieldAuditor } from '../token/unshield_auditor.js';
+import { FakePXE } from './fixtures/fake_pxe.js';
+
+describe('UnshieldAuditor', () => {
+  const token = AztecAddress.random();
+  const [trusted, untrusted] = [AztecAddress.random(), AztecAddress.random()];
+  const [alice, bob] = [AztecAddress.random(), AztecAddress.random()];
+
+  const unshield = (to: AztecAddress, amount: bigint, ...attestors: AztecAddress[]) => ({
+    contract: token,
+    fields: [...attestors.map(a => a.toBigInt()), to.toBigInt(), amount, BigInt(attestors.length)],
+  });
+  const findings = (reports: UnshieldAuditReport[]) =>
+    reports.map(({ blockNumber, unshields }) => [blockNumber, unshields.map(u => u.findings)]);
+
+  const setup = () => {
+    const pxe = new FakePXE();
+    pxe.mine(unshield(alice, 10n, trusted, untrusted), unshield(bob, 20n));
+    pxe.mine();
+    pxe.mine(unshield(alice, 30n, untrusted));
+    return pxe;
+  };
+
+  it('reports every block, flagging unshields without attestations', async () => {
+    const auditor = new UnshieldAuditor(setup() as unknown as PXE, [token]);
+    const reports = await auditor.audit();
+
+    expect(findings(reports)).toEqual([
+      [1, [[], ['no_attestation']]],
+      [2, []],
+      [3, [[]]],
+    ]);
+    expect(reports.map(report => report.flagged)).toEqual([1, 0, 0]);
+    expect(reports[0].unshields[1]).toMatchObject({ token, to: bob, amount: 20n, attestors: [] });
+  });
+
+  it('flags unshields without a trusted attestation', async () => {
+    const auditor = new UnshieldAuditor(setup() as unknown as PXE, [token], { trustedAttestors: [trusted] });
+    const flagged: bigint[] = [];
+    auditor.on('flagged', unshield => flagged.push(unshield.amount));
+
+    const reports = await auditor.audit();
+    expect(findings(reports)).toEqual([
+      [1, [[], ['no_attestation', 'no_trusted_attestation']]],
+      [2, []],
+      [3, [['no_trusted_attestation']]],
+    ]);
+    expect(reports[0].unshields[0].trustedAttestors).toEqual([trusted]);
+    expect(flagged).toEqual([20n, 30n]);
+  });
+
+  it('only audits the given recipients', async () => {
+    const auditor = new UnshieldAuditor(setup() as unknown as PXE, [token], { recipients: [bob] });
+    expect(findings(await auditor.audit())).toEqual([
+      [1, [['no_attestation']]],
+      [2, []],
+      [3, []],
+    ]);
+  });
+
+  it('picks up where the last audit stopped', async () => {
+    const pxe = setup();
+    const auditor = new UnshieldAuditor(pxe as unknown as PXE, [token]);
+    expect((await auditor.audit(2)).map(report => report.blockNumber)).toEqual([1, 2]);
+    expect((await auditor.audit()).map(report => report.blockNumber)).toEqual([3]);
+    expect(await auditor.audit()).toEqual([]);
+
+    pxe.mine(unshield(alice, 40n));
+    expect(findings(await auditor.audit())).toEqual([[4, [['no_attestation']]]]);
+    expect(auditor.getNextBlock()).toBe(5);
+  });
+
+  it('writes a report per block', async () => {
+    const reportDir = await mkdtemp(join(tmpdir(), 'unshield-audit-'));
+    try {
+      const auditor = new UnshieldAuditor(setup() as unknown as PXE, [token], { reportDir });
+      await auditor.audit();
+
+      const report = JSON.parse(await readFile(join(reportDir, 'unshields-1.json'), 'utf-8'));
+      expect(report.flagged).toBe(1);
+      expect(report.unshields[1]).toEqual({
+        token: token.toString(),
+        to: bob.toString(),
+        amount: '20',
+        attestors: [],
+        trustedAttestors: [],
+        findings: ['no_attestation'],
+      });
+      expect(JSON.parse(await readFile(join(reportDir, 'unshields-2.json'), 'utf-8')).unshields).toEqual([]);
+    } finally {
+      await rm(reportDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import { AttestorContract } from '../artifacts/Attestor.js';
+import { TokenContract } from '../artifacts/Token.js';
+import { AztecAddress, DebugLogger, TxHash, Wallet, createDebugLogger } from '@aztec/aztec.js';
+
+import { EventEmitter } from 'events';
+
+import { assembleAttestationProofs } from '../attestor/attestation_proofs.js';
+import { SiblingPathProvider } from '../attestor/sibling_path_provider.js';
+import { BlacklistTreeConfig, DEFAULT_TREE_CONFIG, smt } from '../common_types/index.js';
+import { StaleBlacklistRootError, decodeContractError } from '../errors.js';
+import { NoirTokenNote, TokenNote } from './token_note.js';
+
+export type NoteAttestationStatus =
+  // The attestor attested the note
+  | 'attested'
+  // An origin of the note is blacklisted, so the attestor would refuse it
+  | 'blacklisted'
+  // The attestation went through but the note is still reported as unattested
+  | 'unchanged';
+
+/** The outcome of attesting a single note. */
+export type NoteAttestationResult = {
+  /** The note as selected by `last_unattested_note`. */
+  note: TokenNote;
+  status: NoteAttestationStatus;
+  /** The shield ids in the note's partition table that are blacklisted. */
+  blacklistedShieldIds: bigint[];
+  /** Hash of the `request_attestation` transaction, if one was sent. */
+  txHash?: TxHash;
+  /** Number of `request_attestation` transactions submitted for the note. */
+  attempts: number;
+};
+
+/** Emitted as `attempt` before every `request_attestation` submission. */
+export type AttestationAttemptEvent = {
+  note: TokenNote;
+  /** The blacklist root the proofs were built against. */
+  root: bigint;
+  attempt: number;
+  maxAttempts: number;
+};
+
+/** Emitted as `staleRoot` when the blacklist was updated between fetching its root and mining the attestation. */
+export type StaleRootEvent = AttestationAttemptEvent & {
+  error: Error;
+};
+
+export type AttestationOrchestratorOptions = {
+  /** How many times to submit `request_attestation` for a note whose blacklist root keeps changing. */
+  maxAttempts?: number;
+  /** The shape of the blacklist trees the sibling paths are checked against. */
+  treeConfig?: BlacklistTreeConfig;
+};
+
+/**
+ * Requests attestations for every note of an owner, one `request_attestation` per note, since the token only ever
+ * attests the note picked by `last_unattested_note`.
+ */
+export class AttestationOrchestrator extends EventEmitter {
+  private maxAttempts: number;
+  private treeConfig: BlacklistTreeConfig;
+
+  constructor(
+    protected wallet: Wallet,
+    protected token: TokenContract,
+    protected attestor: AttestorContract,
+    protected proofs: SiblingPathProvider,
+    protected logger: DebugLogger = createDebugLogger('box:attestation_orchestrator'),
+    { maxAttempts = 3, treeConfig = DEFAULT_TREE_CONFIG }: AttestationOrchestratorOptions = {},
+  ) {
+    super();
+    this.maxAttempts = maxAttempts;
+    this.treeConfig = treeConfig;
+  }
+
+  /**
+   * Attests the notes of `owner` until none is left unattested. Stops at the first note that cannot be attested and
+   * returns a result per note that was processed.
+   */
+  public async attestAll(owner: AztecAddress = this.wallet.getAddress()) {
+    const results: NoteAttestationResult[] = [];
+    while (true) {
+      const note = await this.lastUnattestedNote(owner);
+      if (!note) {
+        return results;
+      }
+
+      const result = await this.attest(owner, note);
+      results.push(result);
+      this.logger(`Note of ${note.amount} from shields ${note.shieldIds} ${result.status}`);
+      if (result.status !== 'attested') {
+        return results;
+      }
+    }
+  }
+
+  public async lastUnattestedNote(owner: AztecAddress) {
+    const maybeNote = await this.token.methods.last_unattested_note(owner, this.attestor.address).view();
+    return maybeNote._is_some ? TokenNote.fromNoirStruct(maybeNote._value as NoirTokenNote) : undefined;
+  }
+
+  private async attest(owner: AztecAddress, note: TokenNote): Promise<NoteAttestationResult> {
+    let submissions = 0;
+    for (let attempt = 1; ; attempt++) {
+      await this.proofs.sync?.();
+
+      // The attestor checks every slot of the table, including the unused ones
+      const shieldIds = note.partitionTable.shieldIds.elems;
+      const root = await this.getBlacklistRoot();
+      const proofs = await this.proofs.getSiblingPaths(this.token.address, shieldIds);
+
+      // Checked against the fetched root rather than with `is_not_blacklisted`, which reads the current one
+      const blacklistedShieldIds: bigint[] = [];
+      let matchesRoot = true;
+      for (let i = 0; i < shieldIds.length; i++) {
+        if (smt.verify(shieldIds[i], root, proofs[i], this.treeConfig)) {
+          continue;
+        }
+        if (smt.computeMerkleRoot(shieldIds[i], true, proofs[i], this.treeConfig) !== root) {
+          matchesRoot = false;
+        } else if (!blacklistedShieldIds.includes(shieldIds[i])) {
+          blacklistedShieldIds.push(shieldIds[i]);
+        }
+      }
+      // Paths of another root, or a blacklisting that may have been lifted since, mean the root went stale
+      if (!matchesRoot || (blacklistedShieldIds.length > 0 && (await this.getBlacklistRoot()) !== root)) {
+        if (attempt >= this.maxAttempts) {
+          throw new StaleBlacklistRootError(
+            'incorrect blacklist root',
+            new Error(`Sibling paths do not match blacklist root ${root} after ${attempt} attempts`),
+            { token: this.token.address, root },
+          );
+        }
+        this.logger(`Sibling paths do not match blacklist root ${root} on attempt ${attempt}, refetching`);
+        continue;
+      }
+      if (blacklistedShieldIds.length > 0) {
+        return { note, status: 'blacklisted', blacklistedShieldIds, attempts: submissions };
+      }
+
+      const event: AttestationAttemptEvent = { note, root, attempt, maxAttempts: this.maxAttempts };
+      this.emit('attempt', event);
+      let txHash: TxHash;
+      try {
+        const bundle = assembleAttestationProofs(note.partitionTable, root, proofs, this.treeConfig);
+        submissions++;
+        ({ txHash } = await this.token
+          .withWallet(this.wallet)
+          .methods.request_attestation(owner, this.attestor.address, root, bundle, 0)
+          .send()
+          .wait());
+      } catch (err) {
+        const error = await this.decodeError(err, root);
+        if (attempt >= this.maxAttempts || !(error instanceof StaleBlacklistRootError)) {
+          throw error;
+        }
+        this.logger(`Blacklist root ${root} went stale on attempt ${attempt}/${this.maxAttempts}, retrying`);
+        this.emit('staleRoot', { ...event, error } satisfies StaleRootEvent);
+        continue;
+      }
+
+      // Guards against looping forever on a note the token keeps reporting, e.g. an empty one
+      const next = await this.lastUnattestedNote(owner);
+      const unchanged = next !== undefined && next.randomness.equals(note.randomness);
+      return {
+        note,
+        status: unchanged ? 'unchanged' : 'attested',
+        blacklistedShieldIds,
+        txHash,
+        attempts: submissions,
+      };
+    }
+  }
+
+  private async getBlacklistRoot(): Promise<bigint> {
+    return await this.attestor.methods.get_blacklist_root(this.token.address).view();
+  }
+
+  /**
+   * A submission against a stale root either fails simulation with the attestor's "incorrect blacklist root" or, if
+   * the root changed after simulation, gets dropped with no reason attached, in which case the root will have moved.
+   */
+  private async decodeError(err: unknown, root: bigint) {
+    const context = { token: this.token.address, root };
+    const error = decodeContractError(err, context);
+    if (
+      error instanceof Error &&
+      !(error instanceof StaleBlacklistRootError) &&
+      (await this.getBlacklistRoot()) !== root
+    ) {
+      return new StaleBlacklistRootError('incorrect blacklist root', error, context);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,9 @@
+export * from './token_note.js';
+export * from './attestation_orchestrator.js';
+export * from './redemption_queue.js';
+export * from './pending_shields.js';
+export * from './shield_secret_vault.js';
+export * from './unshield_auditor.js';
+export * from './provenance.js';
+export * from './note_selection.js';
+export * from './spend_preflight.js';
@@ -0,0 +1,84 @@
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+import { MAX_NOTE_HASH_READ_REQUESTS_PER_CALL } from '@aztec/circuits.js';
+
+import { PartitionTable } from '../common_types/index.js';
+import { TokenNote, getTokenNotes } from './token_note.js';
+
+/** The private calls that spend notes through `BalancesMap.sub`. */
+export type SpendKind = 'transfer' | 'unshield' | 'burn';
+
+/** What a private spend of some amount would do to the owner's notes, as `BalancesMap.sub` would do it. */
+export type SpendPrediction = {
+  kind: SpendKind;
+  amount: bigint;
+  /** The notes that would be nullified, in the order they are consumed. */
+  consumed: TokenNote[];
+  /** The amount given back to the owner in a new note, with the table of the last consumed note. */
+  change?: { amount: bigint; partitionTable: PartitionTable };
+  /**
+   * The join of the consumed tables: the table of the recipient's new note for a `transfer`, the table whose
+   * attestations an `unshield` emits, and the table that is discarded for a `burn`.
+   */
+  partitionTable: PartitionTable;
+  attestations: AztecAddress[];
+  /** Attestors of some consumed note that `partitionTable` lost because another consumed note lacked them. */
+  droppedAttestations: AztecAddress[];
+};
+
+/**
+ * Mirrors `filter_notes_min_sum`: takes notes in order, out of the first `MAX_NOTE_HASH_READ_REQUESTS_PER_CALL`, until
+ * they cover `amount`. The notes must be in the order the PXE returns them, as `getTokenNotes` does. Throws if they do
+ * not cover it, which the contract fails with `Balance too low`.
+ */
+export function selectNotes(notes: TokenNote[], amount: bigint) {
+  const selected: TokenNote[] = [];
+  let sum = 0n;
+  for (const note of notes.slice(0, MAX_NOTE_HASH_READ_REQUESTS_PER_CALL)) {
+    if (sum >= amount) {
+      break;
+    }
+    selected.push(note);
+    sum += note.amount;
+  }
+  if (sum < amount) {
+    throw new Error(`Balance too low: the selectable notes hold ${sum}, ${amount} needed`);
+  }
+  return selected;
+}
+
+/** Predicts the notes a `transfer`, `unshield` or `burn` of `amount` would consume and the table they would leave. */
+export function predictSpend(notes: TokenNote[], amount: bigint, kind: SpendKind = 'transfer'): SpendPrediction {
+  const consumed = selectNotes(notes, amount);
+  const partitionTable = consumed.reduce((table, note) => table.join(note.partitionTable), PartitionTable.empty());
+  const attestations = partitionTable.attestations.items().map(attestor => AztecAddress.fromBigInt(attestor));
+
+  const dropped: Map<string, AztecAddress> = new Map();
+  for (const attestor of consumed.flatMap(note => note.attestations)) {
+    if (!partitionTable.hasAttestation(attestor)) {
+      dropped.set(attestor.toString(), attestor);
+    }
+  }
+
+  const sum = consumed.reduce((total, note) => total + note.amount, 0n);
+  const last = consumed[consumed.length - 1];
+  return {
+    kind,
+    amount,
+    consumed,
+    change: sum > amount ? { amount: sum - amount, partitionTable: last.partitionTable.clone() } : undefined,
+    partitionTable,
+    attestations,
+    droppedAttestations: Array.from(dropped.values()),
+  };
+}
+
+/** Predicts a spend of `amount` by `owner` in `token` from the notes the PXE decrypted for them. */
+export async function predictSpendOf(
+  pxe: PXE,
+  token: AztecAddress,
+  owner: AztecAddress,
+  amount: bigint,
+  kind: SpendKind = 'transfer',
+) {
+  return predictSpend(await getTokenNotes(pxe, token, owner), amount, kind);
+}
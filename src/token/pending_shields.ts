@@ -0,0 +1,55 @@
+import { TokenContractArtifact } from '../artifacts/Token.js';
+import {
+  AztecAddress,
+  ContractArtifact,
+  ExtendedNote,
+  Fr,
+  Note,
+  SentTx,
+  TxHash,
+  Wallet,
+  computeMessageSecretHash,
+} from '@aztec/aztec.js';
+
+/** Returns the storage slot of the state variable `name`, as laid out by the compiler. */
+export function getStorageSlot(artifact: ContractArtifact, name: string) {
+  const field = artifact.storageLayout[name];
+  if (!field) {
+    throw new Error(`${artifact.name} has no storage variable named ${name}`);
+  }
+  return field.slot;
+}
+
+/** Returns the type id the compiler assigned to the note type `name`. */
+export function getNoteTypeId(artifact: ContractArtifact, name: string) {
+  const note = artifact.notes[name];
+  if (!note) {
+    throw new Error(`${artifact.name} has no note type named ${name}`);
+  }
+  return note.id;
+}
+
+/**
+ * Adds the `TransparentNote` created in `pending_shields` by a `shield` or `mint_private` transaction to the PXE of
+ * `wallet`, so that `redeem_shield` can find it. `tx` is waited for if it has not been mined yet.
+ */
+export async function addPendingShieldNote(
+  wallet: Wallet,
+  token: AztecAddress,
+  amount: bigint,
+  secret: Fr,
+  tx: TxHash | SentTx,
+) {
+  const txHash = tx instanceof SentTx ? (await tx.wait()).txHash : tx;
+  const note = new Note([new Fr(amount), computeMessageSecretHash(secret)]);
+  const extendedNote = new ExtendedNote(
+    note,
+    wallet.getAddress(),
+    token,
+    getStorageSlot(TokenContractArtifact, 'pending_shields'),
+    getNoteTypeId(TokenContractArtifact, 'TransparentNote'),
+    txHash,
+  );
+  await wallet.addNote(extendedNote);
+  return extendedNote;
+}
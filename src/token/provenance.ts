@@ -0,0 +1,69 @@
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+
+import { TokenNote, getTokenNotes } from './token_note.js';
+
+/** The part of a private balance held in notes with the same origins and attestations. */
+export type ProvenanceGroup = {
+  amount: bigint;
+  /** The origin shield ids, in ascending order. */
+  shieldIds: bigint[];
+  /** The attestors that attested every note of the group, in ascending order. */
+  attestors: AztecAddress[];
+  noteCount: number;
+};
+
+/** A private balance broken down by where its notes come from. */
+export type BalanceProvenance = {
+  /** What `balance_of_private` returns, as far as the notes known to the PXE go. */
+  total: bigint;
+  /** Largest amount first. */
+  groups: ProvenanceGroup[];
+};
+
+/**
+ * Groups notes by origin shield ids and attestations. Notes that were joined by a transfer share one partition table,
+ * so a group with several origins is funds that were mixed and only carry the attestations all their origins had.
+ */
+export function breakdownProvenance(notes: TokenNote[]): BalanceProvenance {
+  const groups: Map<string, ProvenanceGroup> = new Map();
+  for (const note of notes) {
+    const shieldIds = [...note.shieldIds].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const attestors = [...note.attestations].sort((a, b) => (a.toBigInt() < b.toBigInt() ? -1 : 1));
+    const key = `${shieldIds.join(',')}:${attestors.join(',')}`;
+
+    const group = groups.get(key) ?? { amount: 0n, shieldIds, attestors, noteCount: 0 };
+    group.amount += note.amount;
+    group.noteCount++;
+    groups.set(key, group);
+  }
+
+  const sorted = Array.from(groups.values()).sort((a, b) =>
+    a.amount !== b.amount ? (a.amount > b.amount ? -1 : 1) : Number((a.shieldIds[0] ?? 0n) - (b.shieldIds[0] ?? 0n)),
+  );
+  return { total: notes.reduce((total, note) => total + note.amount, 0n), groups: sorted };
+}
+
+/** Breaks down the private balance of `owner` in `token` from the notes the PXE decrypted for them. */
+export async function getBalanceProvenance(pxe: PXE, token: AztecAddress, owner: AztecAddress) {
+  return breakdownProvenance(await getTokenNotes(pxe, token, owner));
+}
+
+/**
+ * Describes a breakdown, e.g. `700 from deposits {3,9}, attested by A; 300 from deposit {12}, unattested`. `name`
+ * gives how attestors are shown, their addresses if not given.
+ */
+export function formatProvenance(
+  { groups }: BalanceProvenance,
+  name: (attestor: AztecAddress) => string = attestor => attestor.toString(),
+) {
+  if (groups.length === 0) {
+    return 'no private balance';
+  }
+  return groups
+    .map(({ amount, shieldIds, attestors }) => {
+      const origins = shieldIds.length === 1 ? 'deposit' : 'deposits';
+      const attestation = attestors.length > 0 ? `attested by ${attestors.map(name).join(', ')}` : 'unattested';
+      return `${amount} from ${origins} {${shieldIds.join(',')}}, ${attestation}`;
+    })
+    .join('; ');
+}
@@ -0,0 +1,146 @@
+import { TokenContract } from '../artifacts/Token.js';
+import {
+  AztecAddress,
+  ContractFunctionInteraction,
+  DebugLogger,
+  Fr,
+  SentTx,
+  TxHash,
+  TxStatus,
+  Wallet,
+  createDebugLogger,
+} from '@aztec/aztec.js';
+
+import { EventEmitter } from 'events';
+
+import { NoteCounterMismatchError, decodeContractError } from '../errors.js';
+
+/** A call that creates a private note whose shield id is the token's `note_counter` at the time it lands. */
+export type Redemption =
+  | {
+      kind: 'redeem_shield';
+      to: AztecAddress;
+      amount: bigint;
+      secret: Fr;
+    }
+  | {
+      kind: 'privately_mint_private_note';
+      amount: bigint;
+    };
+
+/** The outcome of a redemption that landed. */
+export type RedemptionResult = {
+  redemption: Redemption;
+  /** The note counter the transaction was mined with, which is the shield id of the created note. */
+  shieldId: bigint;
+  txHash: TxHash;
+  /** Number of transactions submitted for the redemption. */
+  attempts: number;
+};
+
+/** Emitted as `counterMismatch` when another redemption took the note counter first. */
+export type CounterMismatchEvent = {
+  redemption: Redemption;
+  /** The note counter the failed attempt was made with. */
+  noteCounter: bigint;
+  attempt: number;
+  maxAttempts: number;
+  error: NoteCounterMismatchError;
+};
+
+export type RedemptionQueueOptions = {
+  /** How many times to submit a redemption whose note counter keeps being taken. */
+  maxAttempts?: number;
+};
+
+/**
+ * Submits `redeem_shield` and `privately_mint_private_note` calls one at a time, re-reading `note_counter` and
+ * resubmitting whenever another redemption lands first and `_assert_note_counter_and_increment` reverts.
+ */
+export class RedemptionQueue extends EventEmitter {
+  private maxAttempts: number;
+  // Redemptions from this queue never race each other, only those of other clients
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    protected wallet: Wallet,
+    protected token: TokenContract,
+    protected logger: DebugLogger = createDebugLogger('box:redemption_queue'),
+    { maxAttempts = 5 }: RedemptionQueueOptions = {},
+  ) {
+    super();
+    this.maxAttempts = maxAttempts;
+  }
+
+  public redeemShield(to: AztecAddress, amount: bigint, secret: Fr) {
+    return this.enqueue({ kind: 'redeem_shield', to, amount, secret });
+  }
+
+  public privatelyMintPrivateNote(amount: bigint) {
+    return this.enqueue({ kind: 'privately_mint_private_note', amount });
+  }
+
+  /** Queues `redemption` behind the ones already queued and resolves once it has landed. */
+  public enqueue(redemption: Redemption): Promise<RedemptionResult> {
+    const result = this.tail.then(() => this.redeem(redemption));
+    this.tail = result.catch(() => {});
+    return result;
+  }
+
+  private async redeem(redemption: Redemption): Promise<RedemptionResult> {
+    for (let attempt = 1; ; attempt++) {
+      const noteCounter = await this.getNoteCounter();
+      let sent: SentTx | undefined;
+      try {
+        sent = this.buildCall(redemption, noteCounter).send();
+        const { txHash } = await sent.wait();
+        this.logger(`${redemption.kind} of ${redemption.amount} landed with shield id ${noteCounter}`);
+        return { redemption, shieldId: noteCounter, txHash, attempts: attempt };
+      } catch (err) {
+        const error = await this.decodeError(err, noteCounter, sent);
+        if (attempt >= this.maxAttempts || !(error instanceof NoteCounterMismatchError)) {
+          throw error;
+        }
+        this.logger(`Note counter ${noteCounter} was taken on attempt ${attempt}/${this.maxAttempts}, retrying`);
+        this.emit('counterMismatch', {
+          redemption,
+          noteCounter,
+          attempt,
+          maxAttempts: this.maxAttempts,
+          error,
+        } satisfies CounterMismatchEvent);
+      }
+    }
+  }
+
+  private buildCall(redemption: Redemption, noteCounter: bigint): ContractFunctionInteraction {
+    const token = this.token.withWallet(this.wallet);
+    switch (redemption.kind) {
+      case 'redeem_shield':
+        return token.methods.redeem_shield(redemption.to, redemption.amount, noteCounter, redemption.secret);
+      case 'privately_mint_private_note':
+        return token.methods.privately_mint_private_note(redemption.amount, noteCounter);
+    }
+  }
+
+  private async getNoteCounter() {
+    return BigInt(await this.token.methods.note_counter().view());
+  }
+
+  /**
+   * A redemption whose counter was taken before it was sent fails simulation with "invalid note_counter". One whose
+   * counter was taken after simulation gets dropped with no reason attached, in which case the counter will have moved.
+   */
+  private async decodeError(err: unknown, noteCounter: bigint, sent?: SentTx) {
+    const context = { noteCounter };
+    const error = decodeContractError(err, context);
+    if (error instanceof Error && !(error instanceof NoteCounterMismatchError) && sent) {
+      // Rejects if the transaction never got past simulation
+      const receipt = await sent.getReceipt().catch(() => undefined);
+      if (receipt?.status === TxStatus.DROPPED && (await this.getNoteCounter()) !== noteCounter) {
+        return new NoteCounterMismatchError('invalid note_counter', error, context);
+      }
+    }
+    return error;
+  }
+}
@@ -0,0 +1,203 @@
+import { TokenContract } from '../artifacts/Token.js';
+import {
+  AztecAddress,
+  DebugLogger,
+  Fr,
+  TxHash,
+  Wallet,
+  computeMessageSecretHash,
+  createDebugLogger,
+} from '@aztec/aztec.js';
+import { AztecKVStore, AztecMap } from '@aztec/kv-store';
+import { AztecLmdbStore } from '@aztec/kv-store/lmdb';
+import { openTmpStore } from '@aztec/kv-store/utils';
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promisify } from 'util';
+
+import { addPendingShieldNote } from './pending_shields.js';
+import { RedemptionQueue } from './redemption_queue.js';
+
+const KEY_LEN = 32;
+const SALT_LEN = 16;
+const IV_LEN = 12;
+
+export type ShieldSecretStatus = 'pending' | 'redeemed' | 'failed';
+
+/** A shield (or `mint_private`) whose `TransparentNote` is redeemed with `secret`. */
+export type ShieldSecretEntry = {
+  token: AztecAddress;
+  amount: bigint;
+  /** Hash of the `shield` or `mint_private` transaction that created the pending note. */
+  txHash: TxHash;
+  /** Hash of `secret` the note was created with, which tells apart shields of the same amount in one transaction. */
+  secretHash: Fr;
+  secret: Fr;
+  /** Recipient of the redeemed note, the redeeming wallet if not set. */
+  to?: AztecAddress;
+  status: ShieldSecretStatus;
+  /** The shield id assigned by `redeem_shield`, once redeemed. */
+  shieldId?: bigint;
+  /** Why the last redemption failed. */
+  error?: string;
+};
+
+type StoredEntry = {
+  token: string;
+  amount: string;
+  txHash: string;
+  secretHash: string;
+  to?: string;
+  status: ShieldSecretStatus;
+  shieldId?: string;
+  error?: string;
+  // AES-256-GCM encryption of the secret, hex encoded
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+/**
+ * Keeps the secrets of pending shields until they are redeemed. Secrets are encrypted at rest with a key derived from
+ * a passphrase, while the token, amount, transaction hash, secret hash and status are stored in the clear.
+ */
+export class ShieldSecretVault {
+  private entries: AztecMap<string, StoredEntry>;
+
+  constructor(
+    db: AztecKVStore,
+    private key: Buffer,
+    private logger: DebugLogger = createDebugLogger('box:shield_secret_vault'),
+  ) {
+    this.entries = db.openMap('shield_secrets');
+  }
+
+  /**
+   * Opens a vault persisted under `dataDir`, or a temporary one if no directory is given. The salt of the key
+   * derivation is created on first use and stored next to the entries.
+   */
+  public static async open(passphrase: string, dataDir?: string) {
+    const db = dataDir ? AztecLmdbStore.open(dataDir) : openTmpStore();
+    const storedSalt = db.openSingleton<string>('shield_secrets_salt');
+    let salt = storedSalt.get();
+    if (!salt) {
+      salt = randomBytes(SALT_LEN).toString('hex');
+      await storedSalt.set(salt);
+    }
+    const key = (await promisify(scrypt)(passphrase, Buffer.from(salt, 'hex'), KEY_LEN)) as Buffer;
+    return new ShieldSecretVault(db, key);
+  }
+
+  /** Stores the secret of a shield as pending. */
+  public async add(token: AztecAddress, amount: bigint, txHash: TxHash, secret: Fr, to?: AztecAddress) {
+    const iv = randomBytes(IV_LEN);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret.toBuffer()), cipher.final()]);
+    const secretHash = computeMessageSecretHash(secret);
+    await this.entries.set(entryKey(token, amount, txHash, secretHash), {
+      token: token.toString(),
+      amount: amount.toString(),
+      txHash: txHash.toString(),
+      secretHash: secretHash.toString(),
+      to: to?.toString(),
+      status: 'pending',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    });
+  }
+
+  public get(token: AztecAddress, amount: bigint, txHash: TxHash, secretHash: Fr): ShieldSecretEntry | undefined {
+    const stored = this.entries.get(entryKey(token, amount, txHash, secretHash));
+    return stored && this.decrypt(stored);
+  }
+
+  /** Returns every entry, or only those with the given status. */
+  public list(status?: ShieldSecretStatus): ShieldSecretEntry[] {
+    return Array.from(this.entries.values())
+      .filter(stored => !status || stored.status === status)
+      .map(stored => this.decrypt(stored));
+  }
+
+  public async remove(token: AztecAddress, amount: bigint, txHash: TxHash, secretHash: Fr) {
+    await this.entries.delete(entryKey(token, amount, txHash, secretHash));
+  }
+
+  /**
+   * Registers the pending note of every pending entry with `wallet` and redeems it. Entries that cannot be redeemed
+   * are marked as failed, and are not retried until marked as pending again.
+   */
+  public async redeemAllPending(wallet: Wallet) {
+    const queues: Map<string, RedemptionQueue> = new Map();
+    const results: ShieldSecretEntry[] = [];
+    for (const entry of this.list('pending')) {
+      const key = entry.token.toString();
+      if (!queues.has(key)) {
+        queues.set(key, new RedemptionQueue(wallet, await TokenContract.at(entry.token, wallet)));
+      }
+
+      try {
+        await addPendingShieldNote(wallet, entry.token, entry.amount, entry.secret, entry.txHash);
+        const { shieldId } = await queues
+          .get(key)!
+          .redeemShield(entry.to ?? wallet.getAddress(), entry.amount, entry.secret);
+        results.push(await this.setStatus(entry, 'redeemed', { shieldId }));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.logger(`Failed to redeem shield of ${entry.amount} in tx ${entry.txHash}: ${message}`);
+        results.push(await this.setStatus(entry, 'failed', { error: message }));
+      }
+    }
+    return results;
+  }
+
+  /** Marks a failed entry as pending, so that the next `redeemAllPending` retries it. */
+  public async retry(token: AztecAddress, amount: bigint, txHash: TxHash, secretHash: Fr) {
+    const entry = this.get(token, amount, txHash, secretHash);
+    if (!entry) {
+      throw new Error(`No shield secret for ${amount} of ${token} in tx ${txHash}`);
+    }
+    await this.setStatus(entry, 'pending', {});
+  }
+
+  private async setStatus(
+    entry: ShieldSecretEntry,
+    status: ShieldSecretStatus,
+    { shieldId, error }: Pick<ShieldSecretEntry, 'shieldId' | 'error'>,
+  ): Promise<ShieldSecretEntry> {
+    const key = entryKey(entry.token, entry.amount, entry.txHash, entry.secretHash);
+    await this.entries.set(key, {
+      ...this.entries.get(key)!,
+      status,
+      shieldId: shieldId?.toString(),
+      error,
+    });
+    return { ...entry, status, shieldId, error };
+  }
+
+  private decrypt(stored: StoredEntry): ShieldSecretEntry {
+    const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(stored.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(stored.tag, 'hex'));
+    let secret: Buffer;
+    try {
+      secret = Buffer.concat([decipher.update(Buffer.from(stored.ciphertext, 'hex')), decipher.final()]);
+    } catch {
+      throw new Error(`Could not decrypt the shield secret of tx ${stored.txHash}, wrong passphrase?`);
+    }
+    return {
+      token: AztecAddress.fromString(stored.token),
+      amount: BigInt(stored.amount),
+      txHash: TxHash.fromString(stored.txHash),
+      secretHash: Fr.fromString(stored.secretHash),
+      secret: Fr.fromBuffer(secret),
+      to: stored.to ? AztecAddress.fromString(stored.to) : undefined,
+      status: stored.status,
+      shieldId: stored.shieldId ? BigInt(stored.shieldId) : undefined,
+      error: stored.error,
+    };
+  }
+}
+
+function entryKey(token: AztecAddress, amount: bigint, txHash: TxHash, secretHash: Fr) {
+  return `${token}:${amount}:${txHash}:${secretHash}`;
+}
@@ -0,0 +1,168 @@
+import { AztecAddress, Fr, PXE } from '@aztec/aztec.js';
+import { MAX_NOTE_HASH_READ_REQUESTS_PER_CALL } from '@aztec/circuits.js';
+
+import { BOUNDED_VEC_LEN } from '../common_types/index.js';
+import { SpendKind, SpendPrediction, predictSpend, selectNotes } from './note_selection.js';
+import { TokenNote, getTokenNotes } from './token_note.js';
+
+/** One call of a `SpendPlan`. */
+export type SpendStep = {
+  /** Whether the step is a `transfer` from the owner to themselves, to reorder their notes. */
+  selfTransfer: boolean;
+  prediction: SpendPrediction;
+};
+
+/**
+ * Calls that together spend the amount without overflowing a partition table. A `split` spends it in several calls of
+ * the requested kind, so a recipient gets several notes. A `consolidate` first self-transfers the notes that bring in
+ * too many origins, which moves them behind the others, and then spends the amount at once.
+ */
+export type SpendPlan = {
+  strategy: 'split' | 'consolidate';
+  steps: SpendStep[];
+};
+
+/** A spend whose consumed notes have more origins than a partition table holds. */
+export class PartitionTableOverflowError extends Error {
+  constructor(
+    public readonly kind: SpendKind,
+    public readonly amount: bigint,
+    /** The number of distinct origin shield ids of the notes the spend would consume. */
+    public readonly origins: number,
+    /** The plans that would spend the amount instead, fewest calls first. */
+    public readonly plans: SpendPlan[],
+  ) {
+    super(
+      `A ${kind} of ${amount} would join ${origins} origins into a partition table holding ${BOUNDED_VEC_LEN}` +
+        (plans.length > 0 ? `, instead ${plans.map(describePlan).join(', or ')}` : ''),
+    );
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Predicts a spend like `predictSpend`, but refuses one whose consumed notes have more origins than a partition table
+ * holds. `BoundedVec2.push` does not check its capacity in Noir, so such a call reverts or corrupts the table.
+ */
+export function preflightSpend(notes: TokenNote[], amount: bigint, kind: SpendKind = 'transfer') {
+  const origins = countOrigins(selectNotes(notes, amount));
+  if (origins > BOUNDED_VEC_LEN) {
+    throw new PartitionTableOverflowError(kind, amount, origins, planSpend(notes, amount, kind));
+  }
+  return predictSpend(notes, amount, kind);
+}
+
+/** Runs `preflightSpend` on the notes the PXE decrypted for `owner` in `token`. */
+export async function preflightSpendOf(
+  pxe: PXE,
+  token: AztecAddress,
+  owner: AztecAddress,
+  amount: bigint,
+  kind: SpendKind = 'transfer',
+) {
+  return preflightSpend(await getTokenNotes(pxe, token, owner), amount, kind);
+}
+
+/**
+ * Plans a spend of `amount` whose every call fits the partition table, fewest calls first. Later calls are predicted
+ * on the notes the earlier ones leave, with new notes after the existing ones, as the PXE returns them.
+ */
+export function planSpend(notes: TokenNote[], amount: bigint, kind: SpendKind = 'transfer') {
+  const plans = [planSplit(notes, amount, kind), planConsolidation(notes, amount, kind)].filter(
+    (plan): plan is SpendPlan => plan !== undefined,
+  );
+  return plans.sort((a, b) => a.steps.length - b.steps.length);
+}
+
+function planSplit(notes: TokenNote[], amount: bigint, kind: SpendKind): SpendPlan | undefined {
+  const steps: SpendStep[] = [];
+  let current = notes;
+  let remaining = amount;
+  while (remaining > 0n) {
+    const available = sumOf(fittingPrefix(current));
+    if (available === 0n) {
+      return undefined;
+    }
+    const prediction = predictSpend(current, remaining < available ? remaining : available, kind);
+    steps.push({ selfTransfer: false, prediction });
+    current = afterSpend(current, prediction, false);
+    remaining -= prediction.amount;
+  }
+  return { strategy: 'split', steps };
+}
+
+function planConsolidation(notes: TokenNote[], amount: bigint, kind: SpendKind): SpendPlan | undefined {
+  // Moves ever more of the first notes behind the rest, until the spend no longer selects too many origins
+  for (let moved = 1; moved < Math.min(notes.length, MAX_NOTE_HASH_READ_REQUESTS_PER_CALL); moved++) {
+    const steps: SpendStep[] = [];
+    let current = notes;
+    let left = moved;
+    while (left > 0) {
+      const chunk = fittingPrefix(current.slice(0, left));
+      const prediction = chunk.length > 0 ? predictSpend(current, sumOf(chunk), 'transfer') : undefined;
+      if (!prediction || prediction.consumed.length === 0) {
+        break;
+      }
+      steps.push({ selfTransfer: true, prediction });
+      current = afterSpend(current, prediction, true);
+      left -= prediction.consumed.length;
+    }
+
+    const selected = left === 0 ? tryToSelect(current, amount) : undefined;
+    if (selected && countOrigins(selected) <= BOUNDED_VEC_LEN) {
+      steps.push({ selfTransfer: false, prediction: predictSpend(current, amount, kind) });
+      return { strategy: 'consolidate', steps };
+    }
+  }
+  return undefined;
+}
+
+/** The longest run of first notes a single call can consume without overflowing the partition table. */
+function fittingPrefix(notes: TokenNote[]) {
+  const origins: Set<bigint> = new Set();
+  const prefix: TokenNote[] = [];
+  for (const note of notes.slice(0, MAX_NOTE_HASH_READ_REQUESTS_PER_CALL)) {
+    note.shieldIds.forEach(shieldId => origins.add(shieldId));
+    if (origins.size > BOUNDED_VEC_LEN) {
+      break;
+    }
+    prefix.push(note);
+  }
+  return prefix;
+}
+
+/** The notes of the owner once the spend is mined: the change, then what a self-transfer receives, come last. */
+function afterSpend(notes: TokenNote[], prediction: SpendPrediction, selfTransfer: boolean) {
+  const owner = prediction.consumed[0].owner;
+  // The randomness of the new notes is not known before the call
+  const created = [
+    ...(prediction.change
+      ? [new TokenNote(prediction.change.amount, owner, Fr.ZERO, prediction.change.partitionTable)]
+      : []),
+    ...(selfTransfer ? [new TokenNote(prediction.amount, owner, Fr.ZERO, prediction.partitionTable)] : []),
+  ];
+  return [...notes.filter(note => !prediction.consumed.includes(note)), ...created];
+}
+
+function tryToSelect(notes: TokenNote[], amount: bigint) {
+  try {
+    return selectNotes(notes, amount);
+  } catch {
+    return undefined;
+  }
+}
+
+function countOrigins(notes: TokenNote[]) {
+  return new Set(notes.flatMap(note => note.shieldIds)).size;
+}
+
+function sumOf(notes: TokenNote[]) {
+  return notes.reduce((total, note) => total + note.amount, 0n);
+}
+
+function describePlan({ strategy, steps }: SpendPlan) {
+  const amounts = steps.map(({ selfTransfer, prediction }) =>
+    selfTransfer ? `a self-transfer of ${prediction.amount}` : `${prediction.kind} ${prediction.amount}`,
+  );
+  return strategy === 'split' ? `split it into ${amounts.join(', ')}` : `consolidate with ${amounts.join(', then ')}`;
+}
@@ -0,0 +1,78 @@
+import { AztecAddress, ExtendedNote, Fr, Note, PXE } from '@aztec/aztec.js';
+
+import { NoirPartitionTable, PARTITION_TABLE_LEN, PartitionTable } from '../common_types/index.js';
+
+export const TOKEN_NOTE_LEN = 3 + PARTITION_TABLE_LEN;
+// python -c "print(int(''.join(str(ord(c)) for c in 'TokenNote')))"
+export const TOKEN_NOTE_TYPE_ID = new Fr(8411110710111078111116101n);
+
+/** A `TokenNote` as returned by contract views such as `last_unattested_note`. */
+export type NoirTokenNote = {
+  amount: { lo: bigint; hi: bigint };
+  owner: { inner: bigint };
+  randomness: bigint;
+  partition_table: NoirPartitionTable;
+};
+
+/** Mirror of `token/src/types/token_note.nr`. */
+export class TokenNote {
+  constructor(
+    public amount: bigint,
+    public owner: AztecAddress,
+    public randomness: Fr,
+    public partitionTable: PartitionTable,
+  ) {}
+
+  public static fromFields(fields: Fr[]) {
+    if (fields.length !== TOKEN_NOTE_LEN) {
+      throw new Error(`Expected ${TOKEN_NOTE_LEN} fields to deserialize a TokenNote, got ${fields.length}`);
+    }
+    return new TokenNote(
+      fields[0].toBigInt(),
+      AztecAddress.fromField(fields[1]),
+      fields[2],
+      PartitionTable.deserialize(fields.slice(3)),
+    );
+  }
+
+  public static fromNote(note: Note) {
+    return TokenNote.fromFields(note.items);
+  }
+
+  /** Decodes a note returned by the PXE, checking that it is a `TokenNote`. */
+  public static fromExtendedNote(extendedNote: ExtendedNote) {
+    if (!extendedNote.noteTypeId.equals(TOKEN_NOTE_TYPE_ID)) {
+      throw new Error(`Note type id ${extendedNote.noteTypeId.toBigInt()} is not the TokenNote type id`);
+    }
+    return TokenNote.fromNote(extendedNote.note);
+  }
+
+  public static fromNoirStruct(struct: NoirTokenNote) {
+    return new TokenNote(
+      struct.amount.lo + (struct.amount.hi << 64n),
+      AztecAddress.fromBigInt(struct.owner.inner),
+      new Fr(struct.randomness),
+      PartitionTable.fromNoirStruct(struct.partition_table),
+    );
+  }
+
+  public toFields(): Fr[] {
+    return [new Fr(this.amount), this.owner.toField(), this.randomness, ...this.partitionTable.serialize()];
+  }
+
+  /** The origin shield ids of the note. */
+  public get shieldIds() {
+    return this.partitionTable.shieldIds.items();
+  }
+
+  /** The attestor addresses that attested the note. */
+  public get attestations() {
+    return this.partitionTable.attestations.items().map(attestor => AztecAddress.fromBigInt(attestor));
+  }
+}
+
+/** Returns the decoded `TokenNote`s of `owner` in `token` known to the PXE, in the order the PXE returns them. */
+export async function getTokenNotes(pxe: PXE, token: AztecAddress, owner: AztecAddress) {
+  const notes = await pxe.getNotes({ contractAddress: token, owner });
+  return notes.filter(note => note.noteTypeId.equals(TOKEN_NOTE_TYPE_ID)).map(note => TokenNote.fromExtendedNote(note));
+}
@@ -0,0 +1,181 @@
+import { AztecAddress, DebugLogger, PXE, createDebugLogger } from '@aztec/aztec.js';
+
+import { EventEmitter } from 'events';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { EventStream, UnshieldAttestationsEvent } from '../events/index.js';
+
+export type UnshieldFinding =
+  // The spent partition table carried no attestation at all
+  | 'no_attestation'
+  // None of the attestations is from a trusted attestor
+  | 'no_trusted_attestation';
+
+/** An `unshield` as seen by the auditor. */
+export type AuditedUnshield = {
+  token: AztecAddress;
+  to: AztecAddress;
+  amount: bigint;
+  attestors: AztecAddress[];
+  /** The attestors that are trusted, empty if no trusted attestors are configured. */
+  trustedAttestors: AztecAddress[];
+  findings: UnshieldFinding[];
+};
+
+/** Every unshield mined in one block. */
+export type UnshieldAuditReport = {
+  blockNumber: number;
+  unshields: AuditedUnshield[];
+  /** Number of unshields with findings. */
+  flagged: number;
+};
+
+export type UnshieldAuditorOptions = {
+  /** Unshields without an attestation from one of these are flagged. Only missing attestations are if not set. */
+  trustedAttestors?: AztecAddress[];
+  /** Only audits unshields to these recipients, e.g. the addresses of a public-side partner. */
+  recipients?: AztecAddress[];
+  /** Directory every report is written to as `unshields-<block>.json`, reports are only emitted if not set. */
+  reportDir?: string;
+  pollIntervalMs?: number;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Audits the public balance increases of `unshield`s against the attestations they emit, block by block. Emits
+ * `report` with every `UnshieldAuditReport` and `flagged` with every `AuditedUnshield` that has findings.
+ */
+export class UnshieldAuditor extends EventEmitter {
+  private nextBlock: number;
+
+  constructor(
+    protected pxe: PXE,
+    protected tokens: AztecAddress[],
+    protected options: UnshieldAuditorOptions = {},
+    fromBlock = 1,
+    protected logger: DebugLogger = createDebugLogger('box:unshield_auditor'),
+  ) {
+    super();
+    this.nextBlock = fromBlock;
+  }
+
+  /** The first block the next `audit` starts from. */
+  public getNextBlock() {
+    return this.nextBlock;
+  }
+
+  /** Audits every block since the last audit up to and including `toBlock`, returning one report per block. */
+  public async audit(toBlock?: number) {
+    const latest = toBlock ?? (await this.pxe.getBlockNumber());
+    if (latest < this.nextBlock) {
+      return [];
+    }
+
+    const byBlock: Map<number, AuditedUnshield[]> = new Map();
+    const events = new EventStream(
+      this.pxe,
+      { tokens: this.tokens, types: ['UnshieldAttestations'], fromBlock: this.nextBlock, toBlock: latest },
+      this.logger,
+    );
+    for await (const event of events) {
+      if (event.type !== 'UnshieldAttestations' || !this.isWatched(event.to)) {
+        continue;
+      }
+      const unshields = byBlock.get(event.blockNumber) ?? [];
+      unshields.push(this.check(event));
+      byBlock.set(event.blockNumber, unshields);
+    }
+
+    const reports: UnshieldAuditReport[] = [];
+    for (let blockNumber = this.nextBlock; blockNumber <= latest; blockNumber++) {
+      const unshields = byBlock.get(blockNumber) ?? [];
+      const report = { blockNumber, unshields, flagged: unshields.filter(u => u.findings.length > 0).length };
+      await this.publish(report);
+      reports.push(report);
+    }
+    this.nextBlock = latest + 1;
+    return reports;
+  }
+
+  /** Audits new blocks as they are mined, until `signal` aborts. */
+  public async watch(signal: AbortSignal) {
+    const pollIntervalMs = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    while (!signal.aborted) {
+      await this.audit();
+      await new Promise<void>(resolve => {
+        const timeout = setTimeout(resolve, pollIntervalMs);
+        signal.addEventListener(
+          'abort',
+          () => {
+            clearTimeout(timeout);
+            resolve();
+          },
+          { once: true },
+        );
+      });
+    }
+  }
+
+  private isWatched(to: AztecAddress) {
+    return !this.options.recipients || this.options.recipients.some(recipient => recipient.equals(to));
+  }
+
+  private check(event: UnshieldAttestationsEvent): AuditedUnshield {
+    const { trustedAttestors } = this.options;
+    const trusted = trustedAttestors
+      ? event.attestors.filter(attestor => trustedAttestors.some(t => t.equals(attestor)))
+      : [];
+
+    const findings: UnshieldFinding[] = [];
+    if (event.attestors.length === 0) {
+      findings.push('no_attestation');
+    }
+    if (trustedAttestors && trusted.length === 0) {
+      findings.push('no_trusted_attestation');
+    }
+    return {
+      token: event.contract,
+      to: event.to,
+      amount: event.amount,
+      attestors: event.attestors,
+      trustedAttestors: trusted,
+      findings,
+    };
+  }
+
+  private async publish(report: UnshieldAuditReport) {
+    for (const unshield of report.unshields.filter(u => u.findings.length > 0)) {
+      this.logger(
+        `Flagged unshield of ${unshield.amount} ${unshield.token} to ${unshield.to} in block ${report.blockNumber}: ` +
+          unshield.findings.join(', '),
+      );
+      this.emit('flagged', unshield, report.blockNumber);
+    }
+    if (this.options.reportDir) {
+      await mkdir(this.options.reportDir, { recursive: true });
+      await writeFile(
+        join(this.options.reportDir, `unshields-${report.blockNumber}.json`),
+        JSON.stringify(serializeReport(report), null, 2),
+      );
+    }
+    this.emit('report', report);
+  }
+}
+
+/** A report with addresses and amounts as strings, as written to the report directory. */
+export function serializeReport(report: UnshieldAuditReport) {
+  return {
+    blockNumber: report.blockNumber,
+    flagged: report.flagged,
+    unshields: report.unshields.map(unshield => ({
+      token: unshield.token.toString(),
+      to: unshield.to.toString(),
+      amount: unshield.amount.toString(),
+      attestors: unshield.attestors.map(attestor => attestor.toString()),
+      trustedAttestors: unshield.trustedAttestors.map(attestor => attestor.toString()),
+      findings: unshield.findings,
+    })),
+  };
+}